@@ -22,3 +22,9 @@ const plugin = {
 };
 
 export default plugin;
+
+export {
+  onFeishuReactionFeedback,
+  type FeishuReactionFeedback,
+  type FeishuReactionFeedbackHook,
+} from "./src/feishu/feedback.js";
@@ -3,6 +3,7 @@
  * desc: 飞书渠道插件主入口
  */
 
+import type { IncomingMessage, ServerResponse } from "node:http";
 import type {
   ChannelMessageActionName,
   ChannelPlugin,
@@ -20,14 +21,22 @@ import {
   resolveDefaultFeishuAccountId,
   resolveFeishuAccount,
   resolveFeishuAllowFrom,
+  resolveFeishuDomain,
   resolveFeishuEventMode,
+  resolveFeishuEventQueue,
+  resolveFeishuMediaMaxBytes,
+  resolveFeishuMediaLocalRoots,
   resolveFeishuRequireMention,
-  resolveFeishuReplyToMode,
+  resolveFeishuToolPolicy,
+  resolveFeishuReplyFormat,
+  type FeishuReplyFormat,
 } from "./feishu/config.js";
 import {
   deleteFeishuMessage,
   editFeishuMessage,
   fetchFeishuMember,
+  listFeishuPins,
+  listFeishuReactions,
   normalizeFeishuTarget,
   pinFeishuMessage,
   reactFeishuMessage,
@@ -35,21 +44,181 @@ import {
   sendFeishuMedia,
   sendFeishuText,
 } from "./feishu/outbound.js";
+import { chunkFeishuText, FEISHU_TEXT_CHUNK_LIMIT } from "./feishu/chunker.js";
+import { pruneFeishuInboundMedia } from "./feishu/media.js";
+import { FeishuApiError, formatFeishuError, toFeishuActionError } from "./feishu/errors.js";
+import { feishuThreading } from "./feishu/threading.js";
+import { validateFeishuAccountConfig } from "./feishu/validate.js";
 import { parseFeishuCallback } from "./feishu/events.js";
 import { FEISHU_CHANNEL_ID, FEISHU_HTTP_PATH, feishuMeta, feishuConfigSchema } from "./feishu/schema.js";
 import {
+  getEventQueue,
   getState,
   getWsClient,
   deleteWsClient,
+  resolveThreadMessage,
   startWsClient,
   type FeishuLogger,
 } from "./feishu/state.js";
-import { handleInboundEvent, createClient } from "./feishu/inbound.js";
+import {
+  handleInboundEvent,
+  isFeishuLifecycleEvent,
+  resolveChatStore,
+  createClient,
+  loadBotIdentity,
+  resolveOutboundMentions,
+  resolveUserDirectory,
+} from "./feishu/inbound.js";
+
+/** 群聊目标返回 chat_id，用于解析按群配置的回复格式 */
+const resolveTargetGroupId = (to: string) => {
+  const target = normalizeFeishuTarget(to);
+  return target.receiveIdType === "chat_id" ? target.receiveId : undefined;
+};
+
+/**
+ * 指定话题且未指定回复消息时，回复话题内最近一条消息以发送到话题中
+ */
+const resolveThreadReply = (params: {
+  accountId: string;
+  replyToId?: string | null;
+  threadId?: string | number | null;
+}) => {
+  if (params.replyToId) return { replyToId: params.replyToId, replyInThread: false };
+  const threadId = params.threadId != null ? String(params.threadId) : "";
+  const threadMessageId = threadId ? resolveThreadMessage(params.accountId, threadId) : undefined;
+  return threadMessageId
+    ? { replyToId: threadMessageId, replyInThread: true }
+    : { replyToId: undefined, replyInThread: false };
+};
+
+const parseReplyFormat = (raw: unknown): FeishuReplyFormat | undefined =>
+  raw === "text" || raw === "post" || raw === "card" ? raw : undefined;
+
+// ============================================================================
+// Event Queue
+// ============================================================================
+
+/**
+ * 事件交给后台队列处理，HTTP 回调和长连接共用：收到后立即确认，不等待 agent 回复完成。
+ * 撤回等事件不占用队列，避免排在它要中止的回复之后；队列已满时返回 false，由调用方拒绝该事件
+ */
+const enqueueFeishuEvent = (params: {
+  cfg: MoltbotConfig;
+  accountId: string;
+  event: Record<string, unknown>;
+  log?: FeishuLogger;
+}): boolean => {
+  const onError = (err: unknown) => {
+    const message = formatFeishuError(
+      err,
+      resolveFeishuDomain({ cfg: params.cfg, accountId: params.accountId }),
+    );
+    getState(params.accountId).lastError = message;
+    params.log?.error?.(
+      `feishu event processing failed for account ${params.accountId}: ${message}`,
+    );
+  };
+  const processEvent = () =>
+    handleInboundEvent({
+      cfg: params.cfg,
+      accountId: params.accountId,
+      event: params.event,
+      log: params.log,
+    });
+  if (isFeishuLifecycleEvent(params.event)) {
+    void processEvent().catch(onError);
+    return true;
+  }
+  const queue = getEventQueue(params.accountId, {
+    ...resolveFeishuEventQueue({ cfg: params.cfg, accountId: params.accountId }),
+    log: params.log,
+    onError,
+  });
+  return queue.push(processEvent);
+};
+
+/** 长连接事件：队列已满时抛出错误，长连接以失败状态确认，飞书稍后重推 */
+const handleFeishuWsEvent = (params: {
+  cfg: MoltbotConfig;
+  accountId: string;
+  event: Record<string, unknown>;
+  log?: FeishuLogger;
+}) => {
+  if (!enqueueFeishuEvent(params)) {
+    throw new Error(`feishu event queue full for account ${params.accountId}`);
+  }
+};
 
 // ============================================================================
 // HTTP Route
 // ============================================================================
 
+const sendJson = (res: ServerResponse, statusCode: number, body: unknown) => {
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+};
+
+const readHeader = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * 创建回调处理函数：校验并解析请求后将事件放入账户队列，立即返回 200，
+ * 事件在后台处理（飞书要求 3 秒内响应，否则会重推）；队列已满时返回 503
+ */
+const createFeishuCallbackHandler =
+  (api: MoltbotPluginApi, resolveAccountId: () => string) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "POST") {
+      res.statusCode = 405;
+      res.end("method not allowed");
+      return;
+    }
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      const rawBody = Buffer.concat(chunks).toString("utf8");
+      const accountId = resolveAccountId();
+      try {
+        const account = resolveFeishuAccount({ cfg: api.config, accountId });
+        const parsed = parseFeishuCallback({
+          rawBody,
+          headers: {
+            signature: readHeader(req.headers["x-lark-signature"]),
+            timestamp: readHeader(req.headers["x-lark-request-timestamp"]),
+            nonce: readHeader(req.headers["x-lark-request-nonce"]),
+          },
+          verification: {
+            verificationToken: account.verificationToken,
+            encryptKey: account.encryptKey,
+            appSecret: account.appSecret,
+          },
+        });
+
+        if (parsed.kind === "challenge") {
+          sendJson(res, 200, { challenge: parsed.challenge });
+          return;
+        }
+
+        const accepted = enqueueFeishuEvent({
+          cfg: api.config,
+          accountId: account.accountId,
+          event: parsed.event,
+          log: api.logger,
+        });
+        if (!accepted) {
+          sendJson(res, 503, { code: 503, msg: "busy" });
+          return;
+        }
+        sendJson(res, 200, { code: 0, msg: "success" });
+      } catch (err) {
+        api.logger?.error?.(`feishu callback error for account ${accountId}: ${String(err)}`);
+        sendJson(res, 500, { code: 500, msg: "error" });
+      }
+    });
+  };
+
 export function registerFeishuHttpRoute(api: MoltbotPluginApi) {
   // Register a route for each account
   const accountIds = listFeishuAccountIds(api.config);
@@ -60,60 +229,7 @@ export function registerFeishuHttpRoute(api: MoltbotPluginApi) {
 
     api.registerHttpRoute({
       path: routePath,
-      handler: async (req, res) => {
-        if (req.method !== "POST") {
-          res.statusCode = 405;
-          res.end("method not allowed");
-          return;
-        }
-        const chunks: Buffer[] = [];
-        req.on("data", (chunk) => chunks.push(chunk));
-        req.on("end", async () => {
-          const rawBody = Buffer.concat(chunks).toString("utf8");
-          try {
-            const signature = req.headers["x-lark-signature"];
-            const timestamp = req.headers["x-lark-request-timestamp"];
-            const nonce = req.headers["x-lark-request-nonce"];
-
-            const account = resolveFeishuAccount({ cfg: api.config, accountId });
-            const parsed = parseFeishuCallback({
-              rawBody,
-              headers: {
-                signature: Array.isArray(signature) ? signature[0] : signature,
-                timestamp: Array.isArray(timestamp) ? timestamp[0] : timestamp,
-                nonce: Array.isArray(nonce) ? nonce[0] : nonce,
-              },
-              verification: {
-                verificationToken: account.verificationToken,
-                encryptKey: account.encryptKey,
-                appSecret: account.appSecret,
-              },
-            });
-
-            if (parsed.kind === "challenge") {
-              res.statusCode = 200;
-              res.setHeader("Content-Type", "application/json; charset=utf-8");
-              res.end(JSON.stringify({ challenge: parsed.challenge }));
-              return;
-            }
-
-            await handleInboundEvent({
-              cfg: api.config,
-              accountId,
-              event: parsed.event,
-              log: api.logger,
-            });
-            res.statusCode = 200;
-            res.setHeader("Content-Type", "application/json; charset=utf-8");
-            res.end(JSON.stringify({ code: 0, msg: "success" }));
-          } catch (err) {
-            api.logger?.error?.(`feishu callback error for account ${accountId}: ${String(err)}`);
-            res.statusCode = 500;
-            res.setHeader("Content-Type", "application/json; charset=utf-8");
-            res.end(JSON.stringify({ code: 500, msg: "error" }));
-          }
-        });
-      },
+      handler: createFeishuCallbackHandler(api, () => accountId),
     });
 
     api.logger?.info?.(`[feishu] registered HTTP callback route for account: ${accountId} at ${routePath}`);
@@ -123,61 +239,7 @@ export function registerFeishuHttpRoute(api: MoltbotPluginApi) {
   const defaultRoutePath = normalizePluginHttpPath(api.id, FEISHU_HTTP_PATH);
   api.registerHttpRoute({
     path: defaultRoutePath,
-    handler: async (req, res) => {
-      if (req.method !== "POST") {
-        res.statusCode = 405;
-        res.end("method not allowed");
-        return;
-      }
-      const chunks: Buffer[] = [];
-      req.on("data", (chunk) => chunks.push(chunk));
-      req.on("end", async () => {
-        const rawBody = Buffer.concat(chunks).toString("utf8");
-        try {
-          const signature = req.headers["x-lark-signature"];
-          const timestamp = req.headers["x-lark-request-timestamp"];
-          const nonce = req.headers["x-lark-request-nonce"];
-
-          const accountId = resolveDefaultFeishuAccountId(api.config);
-          const account = resolveFeishuAccount({ cfg: api.config, accountId });
-          const parsed = parseFeishuCallback({
-            rawBody,
-            headers: {
-              signature: Array.isArray(signature) ? signature[0] : signature,
-              timestamp: Array.isArray(timestamp) ? timestamp[0] : timestamp,
-              nonce: Array.isArray(nonce) ? nonce[0] : nonce,
-            },
-            verification: {
-              verificationToken: account.verificationToken,
-              encryptKey: account.encryptKey,
-              appSecret: account.appSecret,
-            },
-          });
-
-          if (parsed.kind === "challenge") {
-            res.statusCode = 200;
-            res.setHeader("Content-Type", "application/json; charset=utf-8");
-            res.end(JSON.stringify({ challenge: parsed.challenge }));
-            return;
-          }
-
-          await handleInboundEvent({
-            cfg: api.config,
-            accountId,
-            event: parsed.event,
-            log: api.logger,
-          });
-          res.statusCode = 200;
-          res.setHeader("Content-Type", "application/json; charset=utf-8");
-          res.end(JSON.stringify({ code: 0, msg: "success" }));
-        } catch (err) {
-          api.logger?.error?.(`feishu callback error: ${String(err)}`);
-          res.statusCode = 500;
-          res.setHeader("Content-Type", "application/json; charset=utf-8");
-          res.end(JSON.stringify({ code: 500, msg: "error" }));
-        }
-      });
-    },
+    handler: createFeishuCallbackHandler(api, () => resolveDefaultFeishuAccountId(api.config)),
   });
 }
 
@@ -188,18 +250,14 @@ export function registerFeishuHttpRoute(api: MoltbotPluginApi) {
 export async function autoStartFeishuWs(api: MoltbotPluginApi) {
   const accountIds = listFeishuAccountIds(api.config);
   for (const accountId of accountIds) {
+    const account = resolveFeishuAccount({ cfg: api.config, accountId });
+    if (account.enabled) void loadBotIdentity(account, api.config, api.logger);
     await startWsClient({
       cfg: api.config,
       accountId,
       logger: api.logger,
-      onEvent: async (payload) => {
-        await handleInboundEvent({
-          cfg: api.config,
-          accountId,
-          event: payload,
-          log: api.logger,
-        });
-      },
+      onEvent: async (payload) =>
+        handleFeishuWsEvent({ cfg: api.config, accountId, event: payload, log: api.logger }),
     });
   }
 }
@@ -284,11 +342,11 @@ export const feishuPlugin: ChannelPlugin = {
   groups: {
     resolveRequireMention: ({ cfg, accountId, groupId }) =>
       resolveFeishuRequireMention({ cfg, accountId, groupId }),
+    resolveToolPolicy: ({ cfg, accountId, groupId, groupChannel }) =>
+      resolveFeishuToolPolicy({ cfg, accountId, groupId: groupId ?? groupChannel }),
   },
 
-  threading: {
-    resolveReplyToMode: ({ cfg, accountId }) => resolveFeishuReplyToMode({ cfg, accountId }),
-  },
+  threading: feishuThreading,
 
   messaging: {
     normalizeTarget: (raw) => {
@@ -334,60 +392,105 @@ export const feishuPlugin: ChannelPlugin = {
       return { to, accountId };
     },
     handleAction: async ({ action, params, cfg, accountId }) => {
-      const account = resolveFeishuAccount({ cfg, accountId });
-      const client = createClient(account, cfg);
-
-      if (action === "send") {
-        const to = String(params.to ?? "").trim();
-        const content = String(params.message ?? "");
-        const mediaUrl = typeof params.media === "string" ? params.media : undefined;
-        if (mediaUrl) {
-          return await sendFeishuMedia({ client, to, text: content, mediaUrl });
+      // 飞书 API 错误以结构化结果返回（错误码、处理提示、log_id），其他错误照常抛出
+      try {
+        const account = resolveFeishuAccount({ cfg, accountId });
+        const client = createClient(account, cfg);
+
+        if (action === "send") {
+          const to = String(params.to ?? "").trim();
+          const content = String(params.message ?? "");
+          const mediaUrl = typeof params.media === "string" ? params.media : undefined;
+          const mentions = resolveOutboundMentions(account, cfg, to);
+          const format =
+            parseReplyFormat(params.format) ??
+            resolveFeishuReplyFormat({ cfg, accountId, groupId: resolveTargetGroupId(to) });
+          if (mediaUrl) {
+            return await sendFeishuMedia({
+              client,
+              to,
+              text: content,
+              mediaUrl,
+              format,
+              maxBytes: resolveFeishuMediaMaxBytes({ cfg, accountId }),
+              localRoots: resolveFeishuMediaLocalRoots({ cfg, accountId }),
+              mentions,
+            });
+          }
+          return await sendFeishuText({ client, to, text: content, format, mentions });
         }
-        return await sendFeishuText({ client, to, text: content });
-      }
 
-      if (action === "react") {
-        const messageId = String(params.messageId ?? "");
-        const emoji = String(params.emoji ?? "");
-        const remove = typeof params.remove === "boolean" ? params.remove : undefined;
-        return await reactFeishuMessage({ client, messageId, emoji, remove });
-      }
+        if (action === "react") {
+          const messageId = String(params.messageId ?? "");
+          const emoji = String(params.emoji ?? "");
+          const remove = typeof params.remove === "boolean" ? params.remove : undefined;
+          return await reactFeishuMessage({ client, messageId, emoji, remove });
+        }
 
-      if (action === "reactions") {
-        return { ok: false, error: "Feishu reactions list is not supported" };
-      }
+        if (action === "reactions") {
+          const messageId = String(params.messageId ?? "");
+          const emoji = typeof params.emoji === "string" ? params.emoji.trim() : undefined;
+          const limit = typeof params.limit === "number" ? params.limit : undefined;
+          const directory = resolveUserDirectory(account, cfg);
+          return await listFeishuReactions({ client, directory, messageId, emoji, limit });
+        }
 
-      if (action === "read") {
-        const chatId = String(params.channelId ?? params.to ?? "");
-        const limit = typeof params.limit === "number" ? params.limit : undefined;
-        return await readFeishuMessages({ client, chatId, limit });
-      }
+        if (action === "read") {
+          const chatId = String(params.channelId ?? params.to ?? "");
+          const limit = typeof params.limit === "number" ? params.limit : undefined;
+          const readTime = (value: unknown) =>
+            typeof value === "string" || typeof value === "number" ? value : undefined;
+          return await readFeishuMessages({
+            client,
+            chatId: resolveTargetGroupId(chatId) ?? chatId,
+            limit,
+            startTime: readTime(params.startTime),
+            endTime: readTime(params.endTime),
+            order: params.order === "asc" ? "asc" : "desc",
+            cursor: typeof params.cursor === "string" ? params.cursor : undefined,
+          });
+        }
 
-      if (action === "edit") {
-        const messageId = String(params.messageId ?? "");
-        const content = String(params.message ?? "");
-        return await editFeishuMessage({ client, messageId, text: content });
-      }
+        if (action === "edit") {
+          const messageId = String(params.messageId ?? "");
+          const content = String(params.message ?? "");
+          // 未指定 format 时由 editFeishuMessage 按原消息的 msg_type 选择
+          const format = parseReplyFormat(params.format);
+          return await editFeishuMessage({ client, messageId, text: content, format });
+        }
 
-      if (action === "delete") {
-        const messageId = String(params.messageId ?? "");
-        return await deleteFeishuMessage({ client, messageId });
-      }
+        if (action === "delete") {
+          const messageId = String(params.messageId ?? "");
+          return await deleteFeishuMessage({ client, messageId });
+        }
 
-      if (action === "pin" || action === "unpin") {
-        const messageId = String(params.messageId ?? "");
-        const chatId = String(params.channelId ?? params.to ?? "");
-        return await pinFeishuMessage({ client, messageId, chatId, remove: action === "unpin" });
-      }
+        if (action === "pin" || action === "unpin") {
+          const messageId = String(params.messageId ?? "");
+          const chatId = String(params.channelId ?? params.to ?? "");
+          return await pinFeishuMessage({ client, messageId, chatId, remove: action === "unpin" });
+        }
 
-      if (action === "list-pins") {
-        return { ok: false, error: "Feishu list pins is not supported" };
-      }
+        if (action === "list-pins") {
+          const chatId = String(params.channelId ?? params.to ?? "");
+          const limit = typeof params.limit === "number" ? params.limit : undefined;
+          return await listFeishuPins({
+            client,
+            directory: resolveUserDirectory(account, cfg),
+            chatId: resolveTargetGroupId(chatId) ?? chatId,
+            limit,
+          });
+        }
 
-      if (action === "member-info") {
-        const userId = String(params.userId ?? "");
-        return await fetchFeishuMember({ client, userId });
+        if (action === "member-info") {
+          const userId = String(params.userId ?? "");
+          const directory = resolveUserDirectory(account, cfg);
+          return await fetchFeishuMember({ client, userId, directory });
+        }
+      } catch (err) {
+        if (err instanceof FeishuApiError) {
+          return toFeishuActionError(err, { domain: resolveFeishuDomain({ cfg, accountId }) });
+        }
+        throw err;
       }
 
       throw new Error(`Action ${action} is not supported for provider feishu.`);
@@ -396,22 +499,24 @@ export const feishuPlugin: ChannelPlugin = {
 
   outbound: {
     deliveryMode: "direct",
-    chunker: null,
-    textChunkLimit: 4000,
-    sendText: async ({ to, text, accountId, replyToId, cfg }) => {
+    chunker: (text, limit) => chunkFeishuText(text, limit),
+    textChunkLimit: FEISHU_TEXT_CHUNK_LIMIT,
+    sendText: async ({ to, text, accountId, replyToId, threadId, cfg }) => {
       const account = resolveFeishuAccount({ cfg, accountId });
       const client = createClient(account, cfg);
       const result = await sendFeishuText({
         client,
         to,
         text,
-        replyToId: replyToId ?? undefined,
+        ...resolveThreadReply({ accountId: account.accountId, replyToId, threadId }),
+        format: resolveFeishuReplyFormat({ cfg, accountId, groupId: resolveTargetGroupId(to) }),
+        mentions: resolveOutboundMentions(account, cfg, to),
       });
       const state = getState(account.accountId);
       state.lastOutboundAt = Date.now();
       return { channel: FEISHU_CHANNEL_ID, ...result };
     },
-    sendMedia: async ({ to, text, mediaUrl, accountId, replyToId, cfg }) => {
+    sendMedia: async ({ to, text, mediaUrl, accountId, replyToId, threadId, cfg }) => {
       const account = resolveFeishuAccount({ cfg, accountId });
       const client = createClient(account, cfg);
       const result = await sendFeishuMedia({
@@ -419,7 +524,11 @@ export const feishuPlugin: ChannelPlugin = {
         to,
         text,
         mediaUrl: mediaUrl ?? "",
-        replyToId: replyToId ?? undefined,
+        ...resolveThreadReply({ accountId: account.accountId, replyToId, threadId }),
+        format: resolveFeishuReplyFormat({ cfg, accountId, groupId: resolveTargetGroupId(to) }),
+        maxBytes: resolveFeishuMediaMaxBytes({ cfg, accountId }),
+        localRoots: resolveFeishuMediaLocalRoots({ cfg, accountId }),
+        mentions: resolveOutboundMentions(account, cfg, to),
       });
       const state = getState(account.accountId);
       state.lastOutboundAt = Date.now();
@@ -444,9 +553,10 @@ export const feishuPlugin: ChannelPlugin = {
       lastInboundAt: snapshot.lastInboundAt ?? null,
       lastOutboundAt: snapshot.lastOutboundAt ?? null,
     }),
-    buildAccountSnapshot: ({ account }) => {
+    buildAccountSnapshot: ({ account, cfg }) => {
       const state = getState(account.accountId);
       const wsClient = getWsClient(account.accountId);
+      const diagnostics = validateFeishuAccountConfig({ cfg, accountId: account.accountId });
       return {
         accountId: account.accountId,
         name: account.name,
@@ -459,6 +569,11 @@ export const feishuPlugin: ChannelPlugin = {
         lastError: state.lastError,
         lastInboundAt: state.lastInboundAt,
         lastOutboundAt: state.lastOutboundAt,
+        duplicatesDropped: state.duplicatesDropped,
+        apiRetries: state.apiRetries,
+        chats: resolveChatStore(account).size,
+        configErrors: diagnostics.filter((item) => item.level === "error"),
+        configWarnings: diagnostics.filter((item) => item.level === "warning"),
       };
     },
   },
@@ -470,6 +585,28 @@ export const feishuPlugin: ChannelPlugin = {
       state.lastStartAt = Date.now();
       state.lastError = null;
 
+      for (const item of validateFeishuAccountConfig({
+        cfg: ctx.cfg,
+        accountId: ctx.account.accountId,
+      })) {
+        const message = `[feishu] [${ctx.account.accountId}] config ${item.level}: ${item.path}: ${item.message}`;
+        const logger = ctx.logger as FeishuLogger;
+        if (item.level === "error") logger?.error?.(message);
+        else logger?.warn?.(message);
+      }
+
+      // 清理上次运行留下的过期入站媒体
+      void pruneFeishuInboundMedia({ accountId: ctx.account.accountId }).catch((err) => {
+        (ctx.logger as FeishuLogger)?.warn?.(`feishu inbound media cleanup failed: ${String(err)}`);
+      });
+
+      // 提前获取机器人身份，用于按 open_id 判断消息是否 @ 了机器人
+      void loadBotIdentity(
+        resolveFeishuAccount({ cfg: ctx.cfg, accountId: ctx.account.accountId }),
+        ctx.cfg,
+        ctx.logger as FeishuLogger,
+      );
+
       const mode = resolveFeishuEventMode({
         cfg: ctx.cfg,
         accountId: ctx.account.accountId,
@@ -480,14 +617,13 @@ export const feishuPlugin: ChannelPlugin = {
           cfg: ctx.cfg,
           accountId: ctx.account.accountId,
           logger: ctx.logger as FeishuLogger,
-          onEvent: async (payload) => {
-            await handleInboundEvent({
+          onEvent: async (payload) =>
+            handleFeishuWsEvent({
               cfg: ctx.cfg,
               accountId: ctx.account.accountId,
               event: payload,
-              log: ctx.logger,
-            });
-          },
+              log: ctx.logger as FeishuLogger,
+            }),
         });
         if (!started) {
           throw new Error("Feishu ws client failed to start");
@@ -0,0 +1,96 @@
+/**
+ * file: src/feishu/chats.ts
+ * desc: 群聊记录：跟踪机器人所在的群及入群时自动放行的群，持久化到插件状态目录
+ */
+
+import { FeishuJsonFile } from "./persist.js";
+import type { FeishuLogger } from "./state.js";
+
+export type FeishuChatRecord = {
+  chatId: string;
+  name?: string;
+  /** 首次记录的时间（入群事件或首条群消息） */
+  joinedAt: number;
+  /** 将机器人拉入群的用户 ID */
+  addedBy?: string;
+  /** 是否已放行，groupPolicy 为 allowlist 时与 channels 中的群一起生效 */
+  allowed?: boolean;
+};
+
+export type FeishuChatStoreParams = {
+  /** 持久化文件路径，未设置时仅保存在内存中 */
+  filePath?: string;
+  log?: FeishuLogger;
+};
+
+export class FeishuChatStore {
+  private readonly file: FeishuJsonFile;
+  /** chat_id → 群记录 */
+  private readonly chats = new Map<string, FeishuChatRecord>();
+
+  constructor(params: FeishuChatStoreParams = {}) {
+    this.file = new FeishuJsonFile({
+      filePath: params.filePath,
+      label: "chat store",
+      serialize: () => this.list(),
+      log: params.log,
+    });
+    this.load();
+  }
+
+  get size() {
+    return this.chats.size;
+  }
+
+  get(chatId: string): FeishuChatRecord | undefined {
+    return this.chats.get(chatId);
+  }
+
+  list(): FeishuChatRecord[] {
+    return Array.from(this.chats.values());
+  }
+
+  isAllowed(chatId: string): boolean {
+    return this.chats.get(chatId)?.allowed === true;
+  }
+
+  /**
+   * 记录机器人所在的群；已存在时合并新的字段并保留首次记录的时间
+   */
+  upsert(record: Omit<FeishuChatRecord, "joinedAt">, now = Date.now()): FeishuChatRecord {
+    const existing = this.chats.get(record.chatId);
+    const next: FeishuChatRecord = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)),
+      chatId: record.chatId,
+      joinedAt: existing?.joinedAt ?? now,
+    };
+    const changed = !existing || JSON.stringify(existing) !== JSON.stringify(next);
+    this.chats.set(record.chatId, next);
+    if (changed) this.file.schedule();
+    return next;
+  }
+
+  /** 机器人被移出群时删除记录，同时撤销放行 */
+  remove(chatId: string): FeishuChatRecord | undefined {
+    const existing = this.chats.get(chatId);
+    if (!existing) return undefined;
+    this.chats.delete(chatId);
+    this.file.schedule();
+    return existing;
+  }
+
+  /** 立即写入持久化文件 */
+  async flush() {
+    await this.file.flush();
+  }
+
+  private load() {
+    const raw = this.file.read();
+    if (!Array.isArray(raw)) return;
+    for (const item of raw as Array<Partial<FeishuChatRecord> | null>) {
+      if (typeof item?.chatId !== "string" || typeof item.joinedAt !== "number") continue;
+      this.chats.set(item.chatId, item as FeishuChatRecord);
+    }
+  }
+}
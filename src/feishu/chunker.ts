@@ -0,0 +1,212 @@
+/**
+ * file: src/feishu/chunker.ts
+ * desc: 长回复分段：按段落/句子切分，不拆开代码块和表格，兼顾飞书消息的字节上限
+ */
+
+import type { FeishuReplyFormat } from "./config.js";
+
+/** 单条消息的默认字符上限 */
+export const FEISHU_TEXT_CHUNK_LIMIT = 4000;
+
+/**
+ * 各消息类型的正文字节上限（飞书请求体限制：文本 150KB，富文本和卡片 30KB），
+ * 预留 JSON 结构与转义的余量
+ */
+export const FEISHU_MAX_BYTES: Record<FeishuReplyFormat, number> = {
+  text: 140 * 1024,
+  post: 24 * 1024,
+  card: 24 * 1024,
+};
+
+type Block = {
+  kind: "text" | "code" | "table";
+  lines: string[];
+  /** 与上一个块之间是否有空行 */
+  blankBefore: boolean;
+};
+
+type Fits = (value: string) => boolean;
+
+const FENCE_OPEN_PATTERN = /^\s*(`{3,}|~{3,})(.*)$/;
+const TABLE_LINE_PATTERN = /^\s*\|/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{2,}/;
+const SENTENCE_BOUNDARY_PATTERN = /(?<=[。！？!?;；])|(?<=\.)(?=\s)/;
+
+const utf8Length = (value: string) => Buffer.byteLength(value, "utf8");
+
+const isFenceClose = (line: string, marker: string) => {
+  const trimmed = line.trim();
+  return trimmed.length >= marker.length && trimmed === marker[0].repeat(trimmed.length);
+};
+
+const parseBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  let blankBefore = false;
+
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i];
+    const fence = line.match(FENCE_OPEN_PATTERN);
+    if (fence) {
+      const block: Block = { kind: "code", lines: [line], blankBefore };
+      i += 1;
+      while (i < lines.length) {
+        block.lines.push(lines[i]);
+        if (isFenceClose(lines[i], fence[1])) break;
+        i += 1;
+      }
+      blocks.push(block);
+      blankBefore = false;
+      continue;
+    }
+    if (!line.trim()) {
+      blankBefore = blocks.length > 0;
+      continue;
+    }
+    const kind = TABLE_LINE_PATTERN.test(line) ? "table" : "text";
+    const last = blocks[blocks.length - 1];
+    // 同类的连续行（中间无空行）归入同一个块
+    if (last && !blankBefore && last.kind === kind) {
+      last.lines.push(line);
+      continue;
+    }
+    blocks.push({ kind, lines: [line], blankBefore });
+    blankBefore = false;
+  }
+  return blocks;
+};
+
+/** 按码点硬切，保证每段都满足 fits */
+const hardSplit = (value: string, fits: Fits): string[] => {
+  const pieces: string[] = [];
+  let current = "";
+  for (const char of value) {
+    if (current && !fits(current + char)) {
+      pieces.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+/** 将若干单元以 separator 连接并尽量装满，单个单元过大时继续用 fallback 切分 */
+const packUnits = (
+  units: string[],
+  separator: string,
+  fits: Fits,
+  fallback: (unit: string) => string[],
+): string[] => {
+  const pieces: string[] = [];
+  let current = "";
+  for (const unit of units) {
+    const candidate = current ? current + separator + unit : unit;
+    if (fits(candidate)) {
+      current = candidate;
+      continue;
+    }
+    if (current) pieces.push(current);
+    current = "";
+    if (fits(unit)) {
+      current = unit;
+      continue;
+    }
+    const split = fallback(unit);
+    pieces.push(...split.slice(0, -1));
+    current = split[split.length - 1] ?? "";
+  }
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+const splitWords = (value: string, fits: Fits) =>
+  packUnits(value.split(/(?<=\s)/), "", fits, (word) => hardSplit(word, fits));
+
+const splitSentences = (value: string, fits: Fits) => {
+  const sentences = value.split(SENTENCE_BOUNDARY_PATTERN);
+  return packUnits(sentences, "", fits, (sentence) => splitWords(sentence, fits));
+};
+
+const splitTextBlock = (block: Block, fits: Fits) =>
+  packUnits(block.lines, "\n", fits, (line) => splitSentences(line, fits).map((s) => s.trimEnd()));
+
+/** 代码块按行切分，每段重新补齐开闭围栏 */
+const splitCodeBlock = (block: Block, fits: Fits) => {
+  const open = block.lines[0];
+  const marker = open.match(FENCE_OPEN_PATTERN)?.[1] ?? "```";
+  const last = block.lines[block.lines.length - 1];
+  const closed = block.lines.length > 1 && isFenceClose(last, marker);
+  const body = block.lines.slice(1, closed ? -1 : undefined);
+  const closeLine = closed ? last : marker;
+  const wrap = (inner: string) => `${open}\n${inner}\n${closeLine}`;
+  const innerFits: Fits = (inner) => fits(wrap(inner));
+  return packUnits(body, "\n", innerFits, (line) => hardSplit(line, innerFits)).map(wrap);
+};
+
+/** 表格按行切分，每段重复表头 */
+const splitTableBlock = (block: Block, fits: Fits) => {
+  const hasHeader = block.lines.length > 2 && TABLE_SEPARATOR_PATTERN.test(block.lines[1]);
+  const header = hasHeader ? block.lines.slice(0, 2).join("\n") : "";
+  const rows = hasHeader ? block.lines.slice(2) : block.lines;
+  const wrap = (inner: string) => (header ? `${header}\n${inner}` : inner);
+  const innerFits: Fits = (inner) => fits(wrap(inner));
+  return packUnits(rows, "\n", innerFits, (row) => hardSplit(row, innerFits)).map(wrap);
+};
+
+const splitBlock = (block: Block, fits: Fits): string[] => {
+  const whole = block.lines.join("\n");
+  if (fits(whole)) return [whole];
+  if (block.kind === "code") return splitCodeBlock(block, fits);
+  if (block.kind === "table") return splitTableBlock(block, fits);
+  return splitTextBlock(block, fits);
+};
+
+const chunkWithLimits = (text: string, charLimit: number, byteLimit: number) => {
+  const fits: Fits = (value) => value.length <= charLimit && utf8Length(value) <= byteLimit;
+  const chunks: string[] = [];
+  let current = "";
+  for (const block of parseBlocks(text)) {
+    const separator = block.blankBefore ? "\n\n" : "\n";
+    for (const [index, piece] of splitBlock(block, fits).entries()) {
+      const candidate = current ? current + (index === 0 ? separator : "\n") + piece : piece;
+      if (fits(candidate)) {
+        current = candidate;
+        continue;
+      }
+      if (current) chunks.push(current);
+      current = piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * 将长文本切分为多段
+ * - 优先在段落、句子边界切分
+ * - 代码块不被拆开，过长时按行切分并在每段重新打开围栏
+ * - 表格过长时按行切分并重复表头
+ * - 同时满足字符数和对应消息类型的字节上限
+ * - 多段时在末尾标注序号 (i/n)
+ */
+export function chunkFeishuText(
+  text: string,
+  limit: number,
+  options: { format?: FeishuReplyFormat; numbered?: boolean } = {},
+): string[] {
+  const byteLimit = FEISHU_MAX_BYTES[options.format ?? "post"];
+  const charLimit = Math.max(1, Math.floor(limit));
+  if (!text.trim()) return [];
+  const chunks = chunkWithLimits(text, charLimit, byteLimit);
+  if (chunks.length <= 1 || options.numbered === false) return chunks;
+
+  // 为序号预留空间后重新切分
+  const suffixLength = `\n\n(${chunks.length * 10}/${chunks.length * 10})`.length;
+  const numbered = chunkWithLimits(
+    text,
+    Math.max(1, charLimit - suffixLength),
+    byteLimit - suffixLength,
+  );
+  return numbered.map((chunk, index) => `${chunk}\n\n(${index + 1}/${numbered.length})`);
+}
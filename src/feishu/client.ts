@@ -1,20 +1,40 @@
-type FeishuTokenResponse = {
-  tenant_access_token?: string;
-  expire?: number;
+import { setTimeout as sleep } from "node:timers/promises";
+import { FeishuApiError } from "./errors.js";
+import { FEISHU_TOKEN_ERROR_CODES, getFeishuTokenManager, type FeishuTokenManager } from "./token.js";
+
+/** 错误响应体，error 通常为包含 log_id 等详情的对象，部分网关错误为字符串 */
+type FeishuRawErrorBody = {
   code?: number;
   msg?: string;
+  error?: unknown;
 };
 
-type FeishuApiError = {
-  code?: number;
-  msg?: string;
-  error?: string;
+export type FeishuRetryPolicy = {
+  /** 最大重试次数 */
+  maxRetries?: number;
+  /** 首次重试的基础等待时长，之后指数增长 */
+  baseDelayMs?: number;
+  /** 单次等待的上限 */
+  maxDelayMs?: number;
+};
+
+export type FeishuRetryInfo = {
+  method: string;
+  path: string;
+  attempt: number;
+  delayMs: number;
+  reason: string;
 };
 
 export type FeishuClientConfig = {
   appId: string;
   appSecret: string;
   baseUrl?: string;
+  /** 默认使用按应用共享的 token 管理器 */
+  tokenManager?: FeishuTokenManager;
+  retry?: FeishuRetryPolicy;
+  /** 每次重试前回调，用于统计重试次数 */
+  onRetry?: (info: FeishuRetryInfo) => void;
   logger?: {
     info?: (message: string) => void;
     warn?: (message: string) => void;
@@ -23,106 +43,347 @@ export type FeishuClientConfig = {
   };
 };
 
+/** 查询参数，数组按同名参数重复传递（如 user_ids=a&user_ids=b） */
+export type FeishuRequestQuery = Record<string, string | number | string[] | undefined>;
+
 export type FeishuApiResponse<T> = {
   data?: T;
   code?: number;
   msg?: string;
 };
 
-type TokenCache = {
-  value: string;
-  expiresAt: number;
+type FeishuPageData<T> = {
+  items?: T[];
+  has_more?: boolean;
+  page_token?: string;
+};
+
+export type FeishuPage<T> = {
+  items: T[];
+  hasMore: boolean;
+  /** 下一页的 page_token，没有更多数据时为 undefined */
+  pageToken?: string;
 };
 
 const DEFAULT_BASE_URL = "https://open.feishu.cn/open-apis";
 
-function nowMs() {
-  return Date.now();
+const DEFAULT_RETRY_POLICY: Required<FeishuRetryPolicy> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+/** 请求频率超限 */
+const FEISHU_RATE_LIMIT_CODE = 99991400;
+
+/**
+ * 判断失败原因：rate_limit 表示请求被限流、未被处理，任何请求都可以重试；
+ * transient 表示服务端异常，请求可能已生效，仅幂等请求可以重试
+ */
+const classifyFailure = (status: number, code?: number) => {
+  if (status === 429 || code === FEISHU_RATE_LIMIT_CODE) return "rate_limit" as const;
+  if (status >= 500) return "transient" as const;
+  return null;
+};
+
+/**
+ * 计算重试等待时长：优先使用 x-ogw-ratelimit-reset / Retry-After（秒），
+ * 否则按指数退避并加入随机抖动
+ */
+export function resolveRetryDelay(params: {
+  attempt: number;
+  headers?: Headers;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  random?: () => number;
+}): number {
+  const reset = Number(params.headers?.get("x-ogw-ratelimit-reset"));
+  if (Number.isFinite(reset) && reset > 0) {
+    return Math.min(reset * 1000, params.maxDelayMs);
+  }
+  const retryAfter = params.headers?.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(delay) && delay >= 0) return Math.min(delay, params.maxDelayMs);
+  }
+  const exponential = Math.min(params.baseDelayMs * 2 ** (params.attempt - 1), params.maxDelayMs);
+  const random = params.random ?? Math.random;
+  return Math.round(exponential * (0.5 + random() / 2));
+}
+
+const parseApiError = (text: string): FeishuRawErrorBody => {
+  try {
+    return text ? (JSON.parse(text) as FeishuRawErrorBody) : {};
+  } catch {
+    return { msg: text.slice(0, 200) };
+  }
+};
+
+/**
+ * 读取响应内容并检查大小上限；边读取边计数，未声明 content-length（分块传输）的响应同样受限
+ */
+export async function readFeishuResponseBody(
+  response: Response,
+  maxBytes?: number,
+  label = "Feishu resource",
+): Promise<Buffer> {
+  const exceeds = (size: number) =>
+    new Error(`${label} exceeds limit: ${size} > ${maxBytes} bytes`);
+  const declaredSize = Number(response.headers?.get("content-length"));
+  if (maxBytes !== undefined && declaredSize > maxBytes) throw exceeds(declaredSize);
+  const reader = response.body?.getReader();
+  if (!reader) {
+    const buffer = Buffer.from(await response.arrayBuffer());
+    if (maxBytes !== undefined && buffer.length > maxBytes) throw exceeds(buffer.length);
+    return buffer;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (maxBytes !== undefined && size > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw exceeds(size);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks, size);
 }
 
 export class FeishuClient {
-  private readonly appId: string;
-  private readonly appSecret: string;
   private readonly baseUrl: string;
   private readonly logger?: FeishuClientConfig["logger"];
-  private tokenCache: TokenCache | null = null;
+  private readonly tokens: FeishuTokenManager;
+  private readonly retry: Required<FeishuRetryPolicy>;
+  private readonly onRetry?: (info: FeishuRetryInfo) => void;
 
   constructor(config: FeishuClientConfig) {
-    this.appId = config.appId;
-    this.appSecret = config.appSecret;
     this.baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
     this.logger = config.logger;
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+    this.onRetry = config.onRetry;
+    this.tokens =
+      config.tokenManager ??
+      getFeishuTokenManager({
+        appId: config.appId,
+        appSecret: config.appSecret,
+        baseUrl: this.baseUrl,
+      });
   }
 
+  /**
+   * 发送 API 请求
+   * - token 失效或过期时刷新后重试一次
+   * - 限流（HTTP 429 / 99991400）时按退避策略重试
+   * - 5xx 和网络错误仅在请求幂等时重试：GET/PUT/PATCH/DELETE 默认幂等，
+   *   POST 需显式传入 idempotent（如携带 uuid 的发送消息请求）
+   */
   async request<T>(params: {
     method: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
     path: string;
-    query?: Record<string, string | number | undefined>;
+    query?: FeishuRequestQuery;
     body?: unknown;
+    /** multipart/form-data 请求体（上传文件），与 body 互斥 */
+    form?: FormData;
+    /** 请求是否可安全重放 */
+    idempotent?: boolean;
   }): Promise<FeishuApiResponse<T>> {
-    const token = await this.getTenantAccessToken();
     const url = this.buildUrl(params.path, params.query);
-    const response = await fetch(url, {
-      method: params.method,
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json; charset=utf-8",
-      },
-      body: params.body === undefined ? undefined : JSON.stringify(params.body),
-    });
-    const text = await response.text();
-    const json = text ? (JSON.parse(text) as FeishuApiResponse<T>) : {};
-    if (!response.ok) {
-      const err = json as FeishuApiError;
-      const message = err.msg ?? err.error ?? response.statusText;
-      throw new Error(`Feishu API error ${response.status}: ${message}`);
+    const idempotent = params.idempotent ?? params.method !== "POST";
+    let tokenRetried = false;
+    let attempt = 0;
+    let token = await this.tokens.getToken();
+    for (;;) {
+      let response: Response;
+      try {
+        // multipart 请求由 fetch 自动生成带 boundary 的 Content-Type
+        response = await fetch(url, {
+          method: params.method,
+          headers: params.form
+            ? { Authorization: `Bearer ${token}` }
+            : {
+                Authorization: `Bearer ${token}`,
+                "Content-Type": "application/json; charset=utf-8",
+              },
+          body:
+            params.form ?? (params.body === undefined ? undefined : JSON.stringify(params.body)),
+        });
+      } catch (err) {
+        if (!idempotent || attempt >= this.retry.maxRetries) throw err;
+        attempt += 1;
+        await this.backoff({ ...params, attempt, reason: String(err) });
+        continue;
+      }
+      const text = await response.text();
+      const json = parseApiError(text) as FeishuApiResponse<T> & FeishuRawErrorBody;
+      if (!tokenRetried && FEISHU_TOKEN_ERROR_CODES.has(json.code ?? 0)) {
+        tokenRetried = true;
+        token = await this.refreshToken(token);
+        continue;
+      }
+      const failure = classifyFailure(response.status, json.code);
+      if (
+        failure &&
+        (failure === "rate_limit" || idempotent) &&
+        attempt < this.retry.maxRetries
+      ) {
+        attempt += 1;
+        await this.backoff({
+          ...params,
+          attempt,
+          headers: response.headers,
+          reason: `${response.status}/${json.code ?? "-"}`,
+        });
+        continue;
+      }
+      if (!response.ok || (json.code && json.code !== 0)) {
+        throw FeishuApiError.fromResponse({
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+          body: json,
+        });
+      }
+      return json;
     }
-    if (json.code && json.code !== 0) {
-      throw new Error(`Feishu API error ${json.code}: ${json.msg ?? "unknown"}`);
+  }
+
+  /**
+   * 逐页遍历列表接口（响应为 { items, has_more, page_token }），
+   * 每次产出一页数据及下一页的 page_token，没有更多数据时结束
+   */
+  async *paginate<T>(params: {
+    path: string;
+    query?: FeishuRequestQuery;
+    pageSize?: number | (() => number);
+    pageToken?: string;
+  }): AsyncGenerator<FeishuPage<T>> {
+    let pageToken = params.pageToken;
+    for (;;) {
+      const pageSize =
+        typeof params.pageSize === "function" ? params.pageSize() : params.pageSize;
+      const response = await this.request<FeishuPageData<T>>({
+        method: "GET",
+        path: params.path,
+        query: { ...params.query, page_size: pageSize, page_token: pageToken },
+      });
+      const data = response.data ?? {};
+      const hasMore = Boolean(data.has_more && data.page_token);
+      yield {
+        items: data.items ?? [],
+        hasMore,
+        pageToken: hasMore ? data.page_token : undefined,
+      };
+      if (!hasMore) return;
+      pageToken = data.page_token;
     }
-    return json;
   }
 
-  private buildUrl(path: string, query?: Record<string, string | number | undefined>) {
+  /**
+   * 下载二进制资源（如消息中的图片、文件），失败时解析飞书的 JSON 错误
+   */
+  async download(params: {
+    path: string;
+    query?: FeishuRequestQuery;
+    maxBytes?: number;
+  }): Promise<{ buffer: Buffer; contentType?: string; fileName?: string }> {
+    const url = this.buildUrl(params.path, params.query);
+    let retried = false;
+    let attempt = 0;
+    let token = await this.tokens.getToken();
+    for (;;) {
+      const response = await fetch(url, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const contentType = response.headers.get("content-type") ?? undefined;
+      if (response.ok && !contentType?.includes("application/json")) {
+        return await this.readResource(response, contentType, params.maxBytes);
+      }
+      const err = parseApiError(await response.text());
+      if (!retried && FEISHU_TOKEN_ERROR_CODES.has(err.code ?? 0)) {
+        retried = true;
+        token = await this.refreshToken(token);
+        continue;
+      }
+      if (classifyFailure(response.status, err.code) && attempt < this.retry.maxRetries) {
+        attempt += 1;
+        await this.backoff({
+          method: "GET",
+          path: params.path,
+          attempt,
+          headers: response.headers,
+          reason: `${response.status}/${err.code ?? "-"}`,
+        });
+        continue;
+      }
+      throw FeishuApiError.fromResponse({
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        body: err,
+      });
+    }
+  }
+
+  private async readResource(response: Response, contentType?: string, maxBytes?: number) {
+    const buffer = await readFeishuResponseBody(response, maxBytes);
+    const disposition = response.headers.get("content-disposition") ?? "";
+    const fileName = disposition.match(/filename="?([^";]+)"?/i)?.[1];
+    return { buffer, contentType, fileName };
+  }
+
+  private async backoff(params: {
+    method: string;
+    path: string;
+    attempt: number;
+    headers?: Headers;
+    reason: string;
+  }) {
+    const delayMs = resolveRetryDelay({
+      attempt: params.attempt,
+      headers: params.headers,
+      baseDelayMs: this.retry.baseDelayMs,
+      maxDelayMs: this.retry.maxDelayMs,
+    });
+    this.logger?.warn?.(
+      `feishu request retry ${params.attempt}/${this.retry.maxRetries} in ${delayMs}ms: ${params.method} ${params.path} (${params.reason})`,
+    );
+    this.onRetry?.({
+      method: params.method,
+      path: params.path,
+      attempt: params.attempt,
+      delayMs,
+      reason: params.reason,
+    });
+    await sleep(delayMs);
+  }
+
+  /** 使当前 token 失效并获取新 token */
+  private async refreshToken(staleToken: string) {
+    this.logger?.warn?.("feishu tenant access token rejected, refreshing");
+    this.tokens.invalidate(staleToken);
+    return await this.tokens.getToken();
+  }
+
+  private buildUrl(path: string, query?: FeishuRequestQuery) {
     const normalized = path.startsWith("/") ? path : `/${path}`;
     const url = new URL(`${this.baseUrl}${normalized}`);
     if (query) {
       Object.entries(query).forEach(([key, value]) => {
         if (value === undefined || value === null) return;
+        if (Array.isArray(value)) {
+          for (const item of value) url.searchParams.append(key, item);
+          return;
+        }
         url.searchParams.set(key, String(value));
       });
     }
     return url.toString();
   }
-
-  private async getTenantAccessToken(): Promise<string> {
-    const cache = this.tokenCache;
-    if (cache && cache.expiresAt > nowMs() + 60_000) {
-      return cache.value;
-    }
-    const response = await fetch(`${this.baseUrl}/auth/v3/tenant_access_token/internal`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json; charset=utf-8",
-      },
-      body: JSON.stringify({
-        app_id: this.appId,
-        app_secret: this.appSecret,
-      }),
-    });
-    const json = (await response.json()) as FeishuTokenResponse;
-    if (!response.ok || json.code) {
-      const message = json.msg ?? response.statusText;
-      throw new Error(`Feishu auth failed: ${message}`);
-    }
-    if (!json.tenant_access_token) {
-      throw new Error("Feishu auth failed: missing access token");
-    }
-    const expiresAt = nowMs() + (json.expire ?? 0) * 1000;
-    this.tokenCache = {
-      value: json.tenant_access_token,
-      expiresAt,
-    };
-    return json.tenant_access_token;
-  }
 }
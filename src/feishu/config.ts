@@ -1,4 +1,8 @@
+import os from "node:os";
+import path from "node:path";
 import type { MoltbotConfig } from "openclaw/plugin-sdk";
+import { resolveFeishuDomainInfo, type FeishuDomain, type FeishuDomainInfo } from "./domain.js";
+import { resolveFeishuOutboundMediaDir } from "./media.js";
 
 export type FeishuDmConfig = {
   enabled?: boolean;
@@ -6,10 +10,55 @@ export type FeishuDmConfig = {
   allowFrom?: Array<string>;
 };
 
+export type FeishuReplyFormat = "text" | "post" | "card";
+
+export type FeishuEventQueueConfig = {
+  concurrency?: number;
+  maxPending?: number;
+};
+
+export type FeishuUserDirectoryConfig = {
+  /** 缓存有效期（分钟） */
+  ttlMinutes?: number;
+  maxEntries?: number;
+  /** 是否持久化到插件状态目录 */
+  persist?: boolean;
+};
+
+/**
+ * 群聊工具策略
+ * - full：不限制
+ * - read-only：仅允许只读工具（读取文件、网页搜索与抓取、图片理解、记忆检索）
+ * - none：禁用所有工具
+ * - 也可直接给出 allow / deny 工具列表
+ */
+export const FEISHU_TOOL_POLICY_PRESETS = ["full", "read-only", "none"] as const;
+
+export type FeishuToolPolicyPreset = (typeof FEISHU_TOOL_POLICY_PRESETS)[number];
+
+export type FeishuToolPolicyRules = {
+  allow?: string[];
+  deny?: string[];
+};
+
+export type FeishuToolPolicy = FeishuToolPolicyPreset | FeishuToolPolicyRules;
+
+export type FeishuReplyToMode = "off" | "first" | "all";
+
 export type FeishuGroupConfig = {
   requireMention?: boolean;
   ignoreOtherMentions?: boolean;
-  toolPolicy?: string;
+  toolPolicy?: FeishuToolPolicy;
+  /** 固定处理该群消息的 agent，优先于顶级 bindings */
+  agentId?: string;
+  /** 追加到该群会话系统提示词中的内容 */
+  systemPrompt?: string;
+  /** 回复语言，如 zh-CN、English */
+  language?: string;
+  replyToMode?: FeishuReplyToMode;
+  replyFormat?: FeishuReplyFormat;
+  replyInThread?: boolean;
+  allowMentionAll?: boolean;
 };
 
 export type FeishuAccountConfig = {
@@ -20,13 +69,31 @@ export type FeishuAccountConfig = {
   verificationToken?: string;
   encryptKey?: string;
   eventMode?: "http" | "ws";
+  domain?: FeishuDomain;
   baseUrl?: string;
   dm?: FeishuDmConfig;
   groupPolicy?: "open" | "allowlist";
   requireMention?: boolean;
   ignoreOtherMentions?: boolean;
-  replyToMode?: "off" | "first" | "all";
+  replyToMode?: FeishuReplyToMode;
+  replyFormat?: FeishuReplyFormat;
+  replyInThread?: boolean;
+  allowMentionAll?: boolean;
+  /** 机器人被拉入群时发送的欢迎 / 帮助消息 */
+  welcomeMessage?: string;
+  /** groupPolicy 为 allowlist 时，白名单用户将机器人拉入群后自动放行该群 */
+  autoAllowGroups?: boolean;
+  /** 用户对机器人回复的表情回复是否写入会话 */
+  reactionFeedback?: boolean;
+  /** 用户撤回消息时是否同时撤回机器人对该消息的回复 */
+  deleteRepliesOnRecall?: boolean;
+  streaming?: boolean;
   mediaMaxMb?: number;
+  /** 允许作为媒体发送的本地目录，系统临时目录和 agent 工作区始终允许 */
+  mediaLocalRoots?: string[];
+  persistDedupe?: boolean;
+  eventQueue?: FeishuEventQueueConfig;
+  userDirectory?: FeishuUserDirectoryConfig;
   actions?: Record<string, boolean>;
   channels?: Record<string, FeishuGroupConfig>;
 };
@@ -45,13 +112,31 @@ type FeishuRootConfig = {
   verificationToken?: string;
   encryptKey?: string;
   eventMode?: "http" | "ws";
+  domain?: FeishuDomain;
   baseUrl?: string;
   dm?: FeishuDmConfig;
   groupPolicy?: "open" | "allowlist";
   requireMention?: boolean;
   ignoreOtherMentions?: boolean;
-  replyToMode?: "off" | "first" | "all";
+  replyToMode?: FeishuReplyToMode;
+  replyFormat?: FeishuReplyFormat;
+  replyInThread?: boolean;
+  allowMentionAll?: boolean;
+  /** 机器人被拉入群时发送的欢迎 / 帮助消息 */
+  welcomeMessage?: string;
+  /** groupPolicy 为 allowlist 时，白名单用户将机器人拉入群后自动放行该群 */
+  autoAllowGroups?: boolean;
+  /** 用户对机器人回复的表情回复是否写入会话 */
+  reactionFeedback?: boolean;
+  /** 用户撤回消息时是否同时撤回机器人对该消息的回复 */
+  deleteRepliesOnRecall?: boolean;
+  streaming?: boolean;
   mediaMaxMb?: number;
+  /** 允许作为媒体发送的本地目录，系统临时目录和 agent 工作区始终允许 */
+  mediaLocalRoots?: string[];
+  persistDedupe?: boolean;
+  eventQueue?: FeishuEventQueueConfig;
+  userDirectory?: FeishuUserDirectoryConfig;
   actions?: Record<string, boolean>;
   channels?: Record<string, FeishuGroupConfig>;
   accounts?: Record<string, FeishuAccountConfig>;
@@ -139,16 +224,57 @@ export function resolveFeishuEventMode(params: {
   return account.eventMode ?? "ws";
 }
 
+/** 群 ID 可能带有话题会话后缀（<chat_id>:thread:<root_id>）或 chat: 前缀 */
+const normalizeGroupId = (groupId?: string | null) =>
+  groupId?.trim().replace(/^chat:/, "").split(":thread:")[0] || undefined;
+
+/**
+ * 沿用原有规则的配置项：群有自己的条目时整条替代 "*"，未设置的项直接使用账户配置
+ */
+const ENTRY_SCOPED_GROUP_KEYS: ReadonlySet<keyof FeishuGroupConfig> = new Set([
+  "requireMention",
+  "ignoreOtherMentions",
+  "toolPolicy",
+]);
+
+/**
+ * 按群读取单个配置项：群自身未配置该项时使用 "*" 中的值（ENTRY_SCOPED_GROUP_KEYS 除外）；
+ * 私聊（无群 ID）不读取 channels。所有按群生效的配置都经由此处读取，保证回退规则一致
+ */
+const resolveGroupValue = <K extends keyof FeishuGroupConfig>(
+  account: ResolvedFeishuAccount,
+  groupId: string | null | undefined,
+  key: K,
+): FeishuGroupConfig[K] | undefined => {
+  const normalized = normalizeGroupId(groupId);
+  if (!normalized) return undefined;
+  const entry = account.channels?.[normalized];
+  if (entry && ENTRY_SCOPED_GROUP_KEYS.has(key)) return entry[key];
+  return entry?.[key] ?? account.channels?.["*"]?.[key];
+};
+
+/**
+ * 群是否在 channels 中单独配置（不含 "*"），groupPolicy 为 allowlist 时据此放行
+ */
+export function isFeishuGroupConfigured(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+  groupId?: string | null;
+}): boolean {
+  const groupId = normalizeGroupId(params.groupId);
+  if (!groupId || groupId === "*") return false;
+  return Boolean(resolveFeishuAccount(params).channels?.[groupId]);
+}
+
 export function resolveFeishuRequireMention(params: {
   cfg: MoltbotConfig;
   accountId?: string | null;
   groupId?: string | null;
 }): boolean {
   const account = resolveFeishuAccount(params);
-  const groupConfig =
-    (params.groupId && account.channels?.[params.groupId]) || account.channels?.["*"];
-  if (typeof groupConfig?.requireMention === "boolean") {
-    return groupConfig.requireMention;
+  const groupValue = resolveGroupValue(account, params.groupId, "requireMention");
+  if (typeof groupValue === "boolean") {
+    return groupValue;
   }
   if (typeof account.requireMention === "boolean") {
     return account.requireMention;
@@ -162,10 +288,9 @@ export function resolveFeishuIgnoreOtherMentions(params: {
   groupId?: string | null;
 }): boolean {
   const account = resolveFeishuAccount(params);
-  const groupConfig =
-    (params.groupId && account.channels?.[params.groupId]) || account.channels?.["*"];
-  if (typeof groupConfig?.ignoreOtherMentions === "boolean") {
-    return groupConfig.ignoreOtherMentions;
+  const groupValue = resolveGroupValue(account, params.groupId, "ignoreOtherMentions");
+  if (typeof groupValue === "boolean") {
+    return groupValue;
   }
   if (typeof account.ignoreOtherMentions === "boolean") {
     return account.ignoreOtherMentions;
@@ -173,19 +298,260 @@ export function resolveFeishuIgnoreOtherMentions(params: {
   return true; // Default to true (polite behavior)
 }
 
+/** read-only 预设允许的工具，README 中列出了同样的清单 */
+const READ_ONLY_TOOLS = [
+  "read",
+  "web_search",
+  "web_fetch",
+  "image",
+  "memory_search",
+  "memory_get",
+  "session_status",
+];
+
+/**
+ * 群聊的工具策略，按群 ID 查找，未配置时使用 "*" 的配置；返回 undefined 表示不限制。
+ * 无法识别的预设名称按 none 处理，避免拼写错误导致放开全部工具（配置校验会给出警告）
+ */
+export function resolveFeishuToolPolicy(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+  groupId?: string | null;
+}): FeishuToolPolicyRules | undefined {
+  const account = resolveFeishuAccount(params);
+  const policy = resolveGroupValue(account, params.groupId, "toolPolicy");
+  if (!policy || policy === "full") return undefined;
+  if (typeof policy === "object") {
+    return {
+      ...(policy.allow ? { allow: [...policy.allow] } : {}),
+      ...(policy.deny ? { deny: [...policy.deny] } : {}),
+    };
+  }
+  if (policy === "read-only") return { allow: [...READ_ONLY_TOOLS] };
+  return { deny: ["*"] };
+}
+
 export function resolveFeishuReplyToMode(params: {
   cfg: MoltbotConfig;
   accountId?: string | null;
+  groupId?: string | null;
+}): FeishuReplyToMode {
+  const account = resolveFeishuAccount(params);
+  return (
+    resolveGroupValue(account, params.groupId, "replyToMode") ??
+    account.replyToMode ??
+    "off"
+  );
+}
 
-}): "off" | "first" | "all" {
+/**
+ * 群聊固定使用的 agent；未配置时返回 undefined，按顶级 bindings 路由
+ */
+export function resolveFeishuGroupAgentId(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+  groupId?: string | null;
+}): string | undefined {
+  if (!params.groupId) return undefined;
   const account = resolveFeishuAccount(params);
-  return account.replyToMode ?? "off";
+  return resolveGroupValue(account, params.groupId, "agentId")?.trim() || undefined;
 }
 
-export function resolveFeishuBaseUrl(params: {
+/**
+ * 群聊追加的系统提示词：systemPrompt 与 language 对应的回复语言要求，均未配置时返回 undefined
+ */
+export function resolveFeishuGroupSystemPrompt(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+  groupId?: string | null;
+}): string | undefined {
+  if (!params.groupId) return undefined;
+  const account = resolveFeishuAccount(params);
+  const systemPrompt = resolveGroupValue(account, params.groupId, "systemPrompt")?.trim();
+  const language = resolveGroupValue(account, params.groupId, "language")?.trim();
+  const parts = [
+    systemPrompt,
+    language ? `Always reply in ${language} unless the user explicitly asks otherwise.` : undefined,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join("\n\n") : undefined;
+}
+
+export function resolveFeishuReplyFormat(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+  groupId?: string | null;
+}): FeishuReplyFormat {
+  const account = resolveFeishuAccount(params);
+  return resolveGroupValue(account, params.groupId, "replyFormat") ?? account.replyFormat ?? "text";
+}
+
+/**
+ * 群聊中是否以话题（thread）形式回复，已在话题内的消息始终在话题内回复
+ */
+export function resolveFeishuReplyInThread(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+  groupId?: string | null;
+}): boolean {
+  const account = resolveFeishuAccount(params);
+  return resolveGroupValue(account, params.groupId, "replyInThread") ?? account.replyInThread ?? false;
+}
+
+/**
+ * 回复中是否允许 @所有人（默认不允许），可按群开启
+ */
+export function resolveFeishuAllowMentionAll(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+  groupId?: string | null;
+}): boolean {
+  const account = resolveFeishuAccount(params);
+  return resolveGroupValue(account, params.groupId, "allowMentionAll") ?? account.allowMentionAll ?? false;
+}
+
+export function resolveFeishuWelcomeMessage(params: {
   cfg: MoltbotConfig;
   accountId?: string | null;
 }): string | undefined {
   const account = resolveFeishuAccount(params);
-  return account.baseUrl?.trim() || undefined;
+  return account.welcomeMessage?.trim() || undefined;
+}
+
+export function resolveFeishuAutoAllowGroups(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): boolean {
+  const account = resolveFeishuAccount(params);
+  return account.autoAllowGroups ?? false;
+}
+
+/**
+ * 是否将用户对机器人回复的表情回复写入会话（默认开启，需订阅表情回复事件）
+ */
+export function resolveFeishuReactionFeedback(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): boolean {
+  const account = resolveFeishuAccount(params);
+  return account.reactionFeedback ?? true;
+}
+
+export function resolveFeishuDeleteRepliesOnRecall(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): boolean {
+  const account = resolveFeishuAccount(params);
+  return account.deleteRepliesOnRecall ?? false;
+}
+
+export function resolveFeishuStreaming(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): boolean {
+  const account = resolveFeishuAccount(params);
+  return account.streaming ?? false;
+}
+
+const DEFAULT_MEDIA_MAX_MB = 30;
+
+export function resolveFeishuMediaMaxBytes(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): number {
+  const account = resolveFeishuAccount(params);
+  const maxMb =
+    typeof account.mediaMaxMb === "number" && account.mediaMaxMb > 0
+      ? account.mediaMaxMb
+      : DEFAULT_MEDIA_MAX_MB;
+  return Math.floor(maxMb * 1024 * 1024);
+}
+
+/**
+ * 允许作为媒体发送的本地目录：插件的待发送媒体目录（<tmp>/openclaw-feishu/outbound）、
+ * agent 工作区（未配置时为 ~/.openclaw/workspace）和 mediaLocalRoots 中配置的目录。
+ * 不包含整个系统临时目录，其中有其他进程的文件和各账户收到的入站附件
+ */
+export function resolveFeishuMediaLocalRoots(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): string[] {
+  const account = resolveFeishuAccount(params);
+  const agents = (
+    params.cfg as {
+      agents?: { defaults?: { workspace?: string }; list?: Array<{ workspace?: string }> };
+    }
+  ).agents;
+  const workspaces = [
+    agents?.defaults?.workspace ?? path.join(os.homedir(), ".openclaw", "workspace"),
+    ...(agents?.list ?? []).map((agent) => agent.workspace),
+  ];
+  return Array.from(
+    new Set(
+      [resolveFeishuOutboundMediaDir(), ...workspaces, ...(account.mediaLocalRoots ?? [])]
+        .map((root) => root?.trim())
+        .filter((root): root is string => Boolean(root)),
+    ),
+  );
+}
+
+/**
+ * 是否将事件去重记录持久化到插件状态目录，重启后仍能识别重推的事件
+ */
+export function resolveFeishuPersistDedupe(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): boolean {
+  const account = resolveFeishuAccount(params);
+  return account.persistDedupe ?? false;
+}
+
+/**
+ * 事件队列（HTTP 回调和长连接共用）的并发数和排队上限，未配置的项使用队列默认值
+ */
+export function resolveFeishuEventQueue(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): FeishuEventQueueConfig {
+  const account = resolveFeishuAccount(params);
+  const positive = (value?: number) =>
+    typeof value === "number" && value > 0 ? Math.floor(value) : undefined;
+  return {
+    concurrency: positive(account.eventQueue?.concurrency),
+    maxPending: positive(account.eventQueue?.maxPending),
+  };
+}
+
+/**
+ * 用户目录缓存配置：有效期、容量和是否持久化，未配置的项使用缓存默认值
+ */
+export function resolveFeishuUserDirectory(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): { ttlMs?: number; maxEntries?: number; persist: boolean } {
+  const account = resolveFeishuAccount(params);
+  const directory = account.userDirectory ?? {};
+  const positive = (value?: number) =>
+    typeof value === "number" && value > 0 ? value : undefined;
+  const ttlMinutes = positive(directory.ttlMinutes);
+  const maxEntries = positive(directory.maxEntries);
+  return {
+    ttlMs: ttlMinutes === undefined ? undefined : Math.floor(ttlMinutes * 60 * 1000),
+    maxEntries: maxEntries === undefined ? undefined : Math.floor(maxEntries),
+    persist: directory.persist ?? false,
+  };
+}
+
+export function resolveFeishuDomain(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): FeishuDomainInfo {
+  const account = resolveFeishuAccount(params);
+  return resolveFeishuDomainInfo({ domain: account.domain, baseUrl: account.baseUrl });
+}
+
+export function resolveFeishuBaseUrl(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): string {
+  return resolveFeishuDomain(params).apiBaseUrl;
 }
@@ -0,0 +1,146 @@
+/**
+ * file: src/feishu/content.ts
+ * desc: 飞书入站消息内容解析
+ */
+
+import {
+  buildFeishuMentionNames,
+  replaceFeishuMentionKeys,
+  type FeishuMention,
+} from "./mentions.js";
+import { feishuPostToMarkdown } from "./post.js";
+
+export type FeishuMessageResource = {
+  /** 消息资源类型：image 对应 type=image，其余下载时均使用 type=file */
+  type: "image" | "file" | "audio" | "media";
+  key: string;
+  fileName?: string;
+};
+
+export type ParsedFeishuContent = {
+  text: string;
+  resources: FeishuMessageResource[];
+};
+
+const parseJson = (raw: string | undefined): Record<string, unknown> | null => {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+};
+
+const readString = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+/**
+ * 解析消息 content
+ * - text 返回文本，@ 占位符替换为 @名称，传入 botOpenId 时移除对机器人的 @
+ * - post 转换为 Markdown，内嵌的图片和视频作为资源返回
+ * - image / file / audio / media 返回可下载的资源及占位文本
+ * - 其他类型返回 `[Feishu <type>] <原始内容>`
+ */
+export function parseFeishuMessageContent(params: {
+  messageType?: string;
+  content?: string;
+  mentions?: FeishuMention[];
+  botOpenId?: string;
+}): ParsedFeishuContent {
+  const messageType = params.messageType ?? "message";
+  const parsed = parseJson(params.content);
+  const mentions = buildFeishuMentionNames(params.mentions ?? [], { botOpenId: params.botOpenId });
+
+  if (messageType === "text") {
+    const text = readString(parsed?.text) ?? params.content ?? "";
+    return { text: replaceFeishuMentionKeys(text, mentions), resources: [] };
+  }
+
+  if (messageType === "post") {
+    const post = feishuPostToMarkdown(parsed, { mentions });
+    return {
+      text: post.markdown.trim() || "[Feishu post]",
+      resources: [
+        ...post.imageKeys.map((key) => ({ type: "image" as const, key })),
+        ...post.mediaKeys.map((key) => ({ type: "media" as const, key })),
+      ],
+    };
+  }
+
+  if (messageType === "image") {
+    const key = readString(parsed?.image_key);
+    return {
+      text: "[Feishu image]",
+      resources: key ? [{ type: "image", key }] : [],
+    };
+  }
+
+  if (messageType === "file" || messageType === "audio" || messageType === "media") {
+    const key = readString(parsed?.file_key);
+    const fileName = readString(parsed?.file_name);
+    return {
+      text: fileName ? `[Feishu ${messageType}] ${fileName}` : `[Feishu ${messageType}]`,
+      resources: key ? [{ type: messageType, key, ...(fileName ? { fileName } : {}) }] : [],
+    };
+  }
+
+  return { text: `[Feishu ${messageType}] ${params.content ?? ""}`.trim(), resources: [] };
+}
+
+/** 消息列表接口返回的消息 */
+export type FeishuApiMessage = {
+  message_id?: string;
+  root_id?: string;
+  parent_id?: string;
+  thread_id?: string;
+  msg_type?: string;
+  create_time?: string;
+  update_time?: string;
+  deleted?: boolean;
+  updated?: boolean;
+  chat_id?: string;
+  sender?: { id?: string; id_type?: string; sender_type?: string };
+  body?: { content?: string };
+  mentions?: Array<{ key?: string; id?: string; name?: string }>;
+};
+
+export type FeishuMessageSummary = {
+  id: string;
+  /** 发送时间（ISO 8601） */
+  time?: string;
+  sender: { id?: string; type?: string };
+  type: string;
+  text: string;
+  threadId?: string;
+  replyToId?: string;
+  deleted?: boolean;
+  edited?: boolean;
+};
+
+const toIsoTime = (raw?: string) => {
+  const ms = Number(raw);
+  return Number.isFinite(ms) && ms > 0 ? new Date(ms).toISOString() : undefined;
+};
+
+/**
+ * 将接口返回的消息转换为精简结构，文本解析与入站消息一致
+ */
+export function summarizeFeishuMessage(message: FeishuApiMessage): FeishuMessageSummary {
+  const type = message.msg_type ?? "unknown";
+  const { text } = parseFeishuMessageContent({
+    messageType: type,
+    content: message.body?.content,
+    mentions: message.mentions,
+  });
+  return {
+    id: message.message_id ?? "",
+    time: toIsoTime(message.create_time),
+    sender: { id: message.sender?.id, type: message.sender?.sender_type },
+    type,
+    text,
+    ...(message.thread_id ? { threadId: message.thread_id } : {}),
+    ...(message.parent_id ? { replyToId: message.parent_id } : {}),
+    ...(message.deleted ? { deleted: true } : {}),
+    ...(message.updated ? { edited: true } : {}),
+  };
+}
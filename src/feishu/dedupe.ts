@@ -0,0 +1,102 @@
+/**
+ * file: src/feishu/dedupe.ts
+ * desc: 事件去重：飞书未及时收到确认时会重复推送事件，按 event_id / message_id 过滤重复投递
+ */
+
+import { FeishuJsonFile } from "./persist.js";
+import type { FeishuLogger } from "./state.js";
+
+export type FeishuDedupeStoreParams = {
+  /** 记录的保留时长，需覆盖飞书的重推间隔 */
+  ttlMs?: number;
+  /** 最多保留的记录数，超出后淘汰最早的记录 */
+  maxEntries?: number;
+  /** 持久化文件路径，未设置时仅保存在内存中 */
+  filePath?: string;
+  log?: FeishuLogger;
+};
+
+const DEFAULT_TTL_MS = 12 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/**
+ * 提取事件的去重 key：同时使用 event_id 和 message_id，
+ * 同一条消息以不同事件重推时也能识别
+ */
+export function extractFeishuEventKeys(payload: Record<string, unknown>): string[] {
+  const header = payload.header as { event_id?: unknown } | undefined;
+  const event = (payload.event ?? payload) as { message?: { message_id?: unknown } };
+  const eventId = header?.event_id ?? payload.uuid;
+  const messageId = event?.message?.message_id;
+  const keys: string[] = [];
+  if (typeof eventId === "string" && eventId) keys.push(`event:${eventId}`);
+  if (typeof messageId === "string" && messageId) keys.push(`message:${messageId}`);
+  return keys;
+}
+
+export class FeishuDedupeStore {
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly file: FeishuJsonFile;
+  /** key → 过期时间，Map 保持插入顺序，最早的记录在前 */
+  private readonly entries = new Map<string, number>();
+
+  constructor(params: FeishuDedupeStoreParams = {}) {
+    this.ttlMs = params.ttlMs ?? DEFAULT_TTL_MS;
+    this.maxEntries = params.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.file = new FeishuJsonFile({
+      filePath: params.filePath,
+      label: "dedupe",
+      serialize: () => Object.fromEntries(this.entries),
+      log: params.log,
+    });
+    this.load();
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  /**
+   * 检查事件是否已处理过：任一 key 已存在即视为重复，否则记录所有 key
+   */
+  check(keys: string[], now = Date.now()): boolean {
+    this.prune(now);
+    if (keys.some((key) => this.entries.has(key))) return true;
+    for (const key of keys) {
+      this.entries.set(key, now + this.ttlMs);
+    }
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    if (keys.length > 0) this.file.schedule();
+    return false;
+  }
+
+  /** 立即写入持久化文件 */
+  async flush() {
+    await this.file.flush();
+  }
+
+  /** 记录按过期时间先后插入，遇到第一条未过期的记录即可停止 */
+  private prune(now: number) {
+    for (const [key, expiresAt] of this.entries) {
+      if (expiresAt > now) break;
+      this.entries.delete(key);
+    }
+  }
+
+  private load() {
+    const raw = this.file.read();
+    if (!raw || typeof raw !== "object") return;
+    const now = Date.now();
+    const loaded = Object.entries(raw)
+      .filter((entry): entry is [string, number] => typeof entry[1] === "number" && entry[1] > now)
+      .sort((a, b) => a[1] - b[1]);
+    for (const [key, expiresAt] of loaded.slice(-this.maxEntries)) {
+      this.entries.set(key, expiresAt);
+    }
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * file: src/feishu/directory.ts
+ * desc: 用户目录缓存：按需通过通讯录接口查询用户名称、部门和头像，带过期时间的 LRU 缓存，可持久化
+ */
+
+import type { FeishuClient } from "./client.js";
+import { FeishuApiError } from "./errors.js";
+import { FeishuJsonFile } from "./persist.js";
+import type { FeishuLogger } from "./state.js";
+
+export type FeishuUserIdType = "open_id" | "user_id" | "union_id";
+
+export type FeishuUserProfile = {
+  openId?: string;
+  userId?: string;
+  unionId?: string;
+  name?: string;
+  enName?: string;
+  /** open_department_id 列表 */
+  departmentIds?: string[];
+  avatarUrl?: string;
+};
+
+export type FeishuUserDirectoryParams = {
+  /** 查询成功的记录保留时长 */
+  ttlMs?: number;
+  /**
+   * 查询不到用户（不存在或不在可见范围）和缺少通讯录权限的记录保留时长，避免反复请求；
+   * 其他接口错误（5xx、限流等）不缓存
+   */
+  missTtlMs?: number;
+  /** 最多缓存的用户数，超出后淘汰最久未使用的记录 */
+  maxEntries?: number;
+  /** 持久化文件路径，未设置时仅保存在内存中 */
+  filePath?: string;
+  log?: FeishuLogger;
+};
+
+type FeishuApiUser = {
+  open_id?: string;
+  user_id?: string;
+  union_id?: string;
+  name?: string;
+  en_name?: string;
+  department_ids?: string[];
+  avatar?: { avatar_72?: string; avatar_240?: string; avatar_origin?: string };
+};
+
+type CacheEntry = {
+  /** 查询不到用户或缺少权限时为 null */
+  profile: FeishuUserProfile | null;
+  /** 缺少权限时的接口错误，lookup 命中缓存时重新抛出 */
+  error?: FeishuApiError;
+  expiresAt: number;
+};
+
+const DEFAULT_TTL_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_MISS_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 2000;
+/** 批量查询接口单次最多 50 个用户 */
+const BATCH_SIZE = 50;
+
+/** 应用缺少 API 权限或用户未授权，需在开发者后台处理，短时间内重试不会成功 */
+const PERMISSION_ERROR_CODES = new Set([99991672, 99991679]);
+
+const isPermissionError = (err: unknown): err is FeishuApiError =>
+  err instanceof FeishuApiError &&
+  ((err.code !== undefined && PERMISSION_ERROR_CODES.has(err.code)) ||
+    err.permissionViolations.length > 0);
+
+/** 根据 ID 前缀判断类型：ou_ 为 open_id，on_ 为 union_id，其他视为 user_id */
+export const detectFeishuUserIdType = (id: string): FeishuUserIdType =>
+  id.startsWith("ou_") ? "open_id" : id.startsWith("on_") ? "union_id" : "user_id";
+
+const toProfile = (user: FeishuApiUser): FeishuUserProfile => ({
+  openId: user.open_id || undefined,
+  userId: user.user_id || undefined,
+  unionId: user.union_id || undefined,
+  name: user.name || undefined,
+  enName: user.en_name || undefined,
+  departmentIds: user.department_ids?.length ? user.department_ids : undefined,
+  avatarUrl: user.avatar?.avatar_240 || user.avatar?.avatar_72 || undefined,
+});
+
+export class FeishuUserDirectory {
+  private readonly ttlMs: number;
+  private readonly missTtlMs: number;
+  private readonly maxEntries: number;
+  private readonly file: FeishuJsonFile;
+  private readonly log?: FeishuLogger;
+  /** 用户 ID（open_id / user_id / union_id）→ 缓存记录，Map 保持访问顺序，最久未使用的在前 */
+  private readonly entries = new Map<string, CacheEntry>();
+  /** 查询中的请求，同一用户的并发查询共享结果 */
+  private readonly inflight = new Map<string, Promise<FeishuUserProfile | null>>();
+
+  constructor(params: FeishuUserDirectoryParams = {}) {
+    this.ttlMs = params.ttlMs ?? DEFAULT_TTL_MS;
+    this.missTtlMs = params.missTtlMs ?? DEFAULT_MISS_TTL_MS;
+    this.maxEntries = params.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.log = params.log;
+    // 仅保存查询成功的记录
+    this.file = new FeishuJsonFile({
+      filePath: params.filePath,
+      label: "user directory",
+      serialize: () =>
+        Object.fromEntries(Array.from(this.entries).filter(([, entry]) => entry.profile)),
+      log: params.log,
+    });
+    this.load();
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  /**
+   * 读取缓存的用户信息；返回 null 表示近期查询不到该用户，undefined 表示未缓存或已过期
+   */
+  get(id: string, now = Date.now()): FeishuUserProfile | null | undefined {
+    return this.peek(id, now)?.profile;
+  }
+
+  /**
+   * 查询用户信息，优先使用缓存；查询不到或接口出错时返回 undefined
+   */
+  async resolve(client: FeishuClient, id: string): Promise<FeishuUserProfile | undefined> {
+    try {
+      return (await this.lookup(client, id)) ?? undefined;
+    } catch (err) {
+      this.log?.debug?.(`feishu user lookup failed: ${id} ${String(err)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * 查询用户信息，优先使用缓存；接口错误会抛出，其中缺少权限的错误在 missTtlMs 内
+   * 直接从缓存抛出，其他错误（5xx、限流等）不缓存。查询不到的用户返回 null 并在 missTtlMs 内不再请求
+   */
+  async lookup(client: FeishuClient, id: string): Promise<FeishuUserProfile | null> {
+    const key = id.trim();
+    if (!key) return null;
+    const cached = this.peek(key);
+    if (cached?.error) throw cached.error;
+    if (cached) return cached.profile;
+    const pending = this.inflight.get(key);
+    if (pending) return await pending;
+    const task = this.fetch(client, key).finally(() => {
+      this.inflight.delete(key);
+    });
+    this.inflight.set(key, task);
+    return await task;
+  }
+
+  /**
+   * 批量查询用户信息，返回 ID → 用户信息（不含查询失败的用户）。
+   * 优先使用缓存，未缓存的用户按 ID 类型分批请求；接口出错时记录日志并返回已解析的部分
+   */
+  async resolveMany(client: FeishuClient, ids: string[]): Promise<Map<string, FeishuUserProfile>> {
+    const profiles = new Map<string, FeishuUserProfile>();
+    const missing = new Map<FeishuUserIdType, string[]>();
+    for (const id of new Set(ids.map((value) => value.trim()).filter(Boolean))) {
+      const cached = this.get(id);
+      if (cached) {
+        profiles.set(id, cached);
+      } else if (cached === undefined) {
+        const type = detectFeishuUserIdType(id);
+        missing.set(type, [...(missing.get(type) ?? []), id]);
+      }
+    }
+    for (const [type, pending] of missing) {
+      for (let index = 0; index < pending.length; index += BATCH_SIZE) {
+        const batch = pending.slice(index, index + BATCH_SIZE);
+        try {
+          await this.fetchBatch(client, type, batch);
+        } catch (err) {
+          this.log?.warn?.(`feishu user batch lookup failed: ${String(err)}`);
+          break;
+        }
+        for (const id of batch) {
+          const profile = this.get(id);
+          if (profile) profiles.set(id, profile);
+        }
+      }
+    }
+    return profiles;
+  }
+
+  /** 立即写入持久化文件，仅保存查询成功的记录 */
+  async flush() {
+    await this.file.flush();
+  }
+
+  /** 读取未过期的缓存记录，并将其移到最近使用的位置 */
+  private peek(id: string, now = Date.now()): CacheEntry | undefined {
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    this.entries.delete(id);
+    if (entry.expiresAt <= now) return undefined;
+    this.entries.set(id, entry);
+    return entry;
+  }
+
+  private async fetch(client: FeishuClient, id: string): Promise<FeishuUserProfile | null> {
+    const now = Date.now();
+    const response = await client
+      .request<{ user?: FeishuApiUser }>({
+        method: "GET",
+        path: `/contact/v3/users/${encodeURIComponent(id)}`,
+        query: {
+          user_id_type: detectFeishuUserIdType(id),
+          department_id_type: "open_department_id",
+        },
+      })
+      .catch((err: unknown) => {
+        if (isPermissionError(err)) this.store(id, null, now, err);
+        throw err;
+      });
+    const profile = response.data?.user ? toProfile(response.data.user) : null;
+    this.store(id, profile, now);
+    return profile;
+  }
+
+  /** 批量查询并写入缓存，接口未返回的用户（不存在或不在可见范围）记为查询失败 */
+  private async fetchBatch(client: FeishuClient, type: FeishuUserIdType, ids: string[]) {
+    const now = Date.now();
+    const response = await client
+      .request<{ items?: FeishuApiUser[] }>({
+        method: "GET",
+        path: "/contact/v3/users/batch",
+        query: {
+          user_ids: ids,
+          user_id_type: type,
+          department_id_type: "open_department_id",
+        },
+      })
+      .catch((err: unknown) => {
+        if (isPermissionError(err)) {
+          for (const id of ids) this.store(id, null, now, err);
+        }
+        throw err;
+      });
+    const found = new Set<string>();
+    for (const user of response.data?.items ?? []) {
+      const id = user[type];
+      if (!id) continue;
+      found.add(id);
+      this.store(id, toProfile(user), now);
+    }
+    for (const id of ids) {
+      if (!found.has(id)) this.store(id, null, now);
+    }
+  }
+
+  /** 记录查询结果，成功时同时以该用户的其他 ID 建立索引 */
+  private store(
+    id: string,
+    profile: FeishuUserProfile | null,
+    now: number,
+    error?: FeishuApiError,
+  ) {
+    const entry: CacheEntry = {
+      profile,
+      ...(error ? { error } : {}),
+      expiresAt: now + (profile ? this.ttlMs : this.missTtlMs),
+    };
+    const ids = new Set([id, profile?.openId, profile?.userId, profile?.unionId]);
+    for (const key of ids) {
+      if (!key) continue;
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    if (profile) this.file.schedule();
+  }
+
+  private load() {
+    const raw = this.file.read();
+    if (!raw || typeof raw !== "object") return;
+    const now = Date.now();
+    const loaded = Object.entries(raw)
+      .filter((entry): entry is [string, CacheEntry] => {
+        const value = entry[1] as Partial<CacheEntry> | null;
+        return Boolean(value?.profile) && typeof value?.expiresAt === "number" && value.expiresAt > now;
+      })
+      .sort((a, b) => a[1].expiresAt - b[1].expiresAt);
+    for (const [key, entry] of loaded.slice(-this.maxEntries)) {
+      this.entries.set(key, entry);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * file: src/feishu/domain.ts
+ * desc: 飞书 / Lark 域名解析：统一生成 REST 地址、WebSocket 地址和开放平台链接
+ */
+
+/** feishu（国内）、lark（海外）或自定义开放平台地址（如私有化部署） */
+export type FeishuDomain = "feishu" | "lark" | (string & {});
+
+export type FeishuDomainInfo = {
+  /** feishu、lark 或 custom */
+  kind: "feishu" | "lark" | "custom";
+  /** 面向用户展示的平台名称 */
+  label: string;
+  /** REST API 地址，如 https://open.feishu.cn/open-apis */
+  apiBaseUrl: string;
+  /** WebSocket 长连接的接入地址，请求 /callback/ws/endpoint 获取连接 */
+  wsBaseUrl: string;
+  /** 开发者后台（应用管理）地址 */
+  consoleUrl: string;
+  /** 开放平台文档地址 */
+  docsUrl: string;
+};
+
+const KNOWN_DOMAINS = {
+  feishu: { label: "Feishu", origin: "https://open.feishu.cn" },
+  lark: { label: "Lark", origin: "https://open.larksuite.com" },
+} as const;
+
+const API_PATH = "/open-apis";
+
+const trimSlashes = (value: string) => value.trim().replace(/\/+$/, "");
+
+/** 去掉末尾的 /open-apis，得到开放平台根地址 */
+const toOrigin = (value: string) => {
+  const normalized = trimSlashes(value);
+  return normalized.endsWith(API_PATH) ? normalized.slice(0, -API_PATH.length) : normalized;
+};
+
+const buildDomainInfo = (
+  kind: FeishuDomainInfo["kind"],
+  label: string,
+  origin: string,
+): FeishuDomainInfo => ({
+  kind,
+  label,
+  apiBaseUrl: `${origin}${API_PATH}`,
+  wsBaseUrl: origin,
+  consoleUrl: `${origin}/app`,
+  docsUrl: `${origin}/document`,
+});
+
+/**
+ * 解析域名配置
+ * - domain 为 feishu / lark 时使用对应的官方地址，未配置时默认 feishu
+ * - 其他值视为自定义开放平台地址，可带或不带 /open-apis
+ * - baseUrl（旧配置）仅覆盖 REST 地址，WebSocket 地址由其去掉 /open-apis 得到
+ */
+export function resolveFeishuDomainInfo(params: {
+  domain?: FeishuDomain;
+  baseUrl?: string;
+}): FeishuDomainInfo {
+  const domain = params.domain?.trim() || "feishu";
+  const key = domain.toLowerCase();
+  const info =
+    key === "feishu" || key === "lark"
+      ? buildDomainInfo(key, KNOWN_DOMAINS[key].label, KNOWN_DOMAINS[key].origin)
+      : buildDomainInfo("custom", "Feishu", toOrigin(domain));
+  const baseUrl = params.baseUrl?.trim();
+  if (!baseUrl) return info;
+  return { ...info, apiBaseUrl: trimSlashes(baseUrl), wsBaseUrl: toOrigin(baseUrl) };
+}
@@ -0,0 +1,149 @@
+/**
+ * file: src/feishu/errors.ts
+ * desc: 飞书 API 错误：保留错误码、HTTP 状态、log_id 和权限缺失详情，并给出常见错误的处理提示
+ */
+
+import type { FeishuDomainInfo } from "./domain.js";
+
+export type FeishuPermissionViolation = {
+  type?: string;
+  subject?: string;
+  description?: string;
+};
+
+/** 飞书接口失败时返回的响应体 */
+export type FeishuErrorBody = {
+  code?: number;
+  msg?: string;
+  error?: {
+    log_id?: string;
+    permission_violations?: FeishuPermissionViolation[];
+    helps?: Array<{ url?: string; description?: string }>;
+  };
+};
+
+/** 提示中使用的平台名称和开放平台地址，按账户的 domain 配置解析 */
+export type FeishuErrorDomain = Pick<FeishuDomainInfo, "label" | "consoleUrl" | "docsUrl">;
+
+/** 常见错误码的处理提示，{platform} 替换为平台名称（Feishu / Lark） */
+const FEISHU_ERROR_HINTS: Record<number, string> = {
+  99991672:
+    "The app is missing a required API scope. Enable it under Permissions & Scopes in the {platform} developer console and publish a new app version.",
+  99991679: "The user has not authorized a required scope for this app.",
+  99991663: "The tenant access token is invalid. Check appId/appSecret.",
+  99991668: "The tenant access token has expired.",
+  99991400: "Request rate limit reached. Slow down and retry later.",
+  230001: "Invalid request parameters. Check the message content and receive_id type.",
+  230002: "The bot is not a member of this chat. Add the bot to the group first.",
+  230006: "Bot capability is not enabled. Enable the bot feature for the app in the {platform} developer console.",
+  230013:
+    "The user is outside the app's visibility range. Add the user to the app's availability scope in the {platform} developer console.",
+  230027: "The bot lacks permission for this operation in the chat (e.g. editing or recalling other users' messages).",
+  230099: "Failed to create the card content. Check the card JSON.",
+  230110: "The message has been recalled or deleted.",
+};
+
+export const describeFeishuErrorCode = (code?: number, label = "Feishu"): string | undefined =>
+  code === undefined ? undefined : FEISHU_ERROR_HINTS[code]?.replaceAll("{platform}", label);
+
+/** 需要在开发者后台处理的提示指向后台地址，其他提示指向开放平台文档 */
+const resolveHintLink = (
+  hint: string,
+  domain: FeishuErrorDomain,
+): { consoleUrl?: string; docsUrl?: string } =>
+  hint.includes("developer console")
+    ? { consoleUrl: domain.consoleUrl }
+    : { docsUrl: domain.docsUrl };
+
+export class FeishuApiError extends Error {
+  /** HTTP 状态码 */
+  readonly status: number;
+  /** 飞书错误码，响应体中没有时为 undefined */
+  readonly code?: number;
+  /** 飞书返回的原始错误信息 */
+  readonly feishuMsg?: string;
+  /** 请求的 log_id（x-tt-logid），向飞书排查问题时需要提供 */
+  readonly logId?: string;
+  readonly permissionViolations: FeishuPermissionViolation[];
+  readonly hint?: string;
+
+  constructor(params: {
+    status: number;
+    code?: number;
+    msg?: string;
+    logId?: string;
+    permissionViolations?: FeishuPermissionViolation[];
+  }) {
+    const code = params.code || undefined;
+    const msg = params.msg || "unknown";
+    super(`Feishu API error ${code ?? params.status}: ${msg}`);
+    this.name = "FeishuApiError";
+    this.status = params.status;
+    this.code = code;
+    this.feishuMsg = params.msg;
+    this.logId = params.logId;
+    this.permissionViolations = params.permissionViolations ?? [];
+    this.hint = describeFeishuErrorCode(code);
+  }
+
+  /** 根据响应和响应体构建错误 */
+  static fromResponse(params: {
+    status: number;
+    statusText?: string;
+    headers?: Headers;
+    body: { code?: number; msg?: string; error?: unknown };
+  }): FeishuApiError {
+    const detail =
+      params.body.error && typeof params.body.error === "object"
+        ? (params.body.error as NonNullable<FeishuErrorBody["error"]>)
+        : undefined;
+    const fallbackMsg = typeof params.body.error === "string" ? params.body.error : undefined;
+    return new FeishuApiError({
+      status: params.status,
+      code: params.body.code,
+      msg: params.body.msg || fallbackMsg || params.statusText,
+      logId: params.headers?.get("x-tt-logid") ?? detail?.log_id,
+      permissionViolations: detail?.permission_violations,
+    });
+  }
+}
+
+/**
+ * 日志中使用的错误描述，飞书 API 错误附带处理提示和 log_id；
+ * 传入 domain 时提示使用对应的平台名称，并附带开发者后台或文档地址
+ */
+export function formatFeishuError(err: unknown, domain?: FeishuErrorDomain): string {
+  if (!(err instanceof FeishuApiError)) return String(err);
+  const parts = [err.message];
+  const hint = domain ? describeFeishuErrorCode(err.code, domain.label) : err.hint;
+  if (hint) parts.push(`hint: ${hint}`);
+  if (hint && domain) {
+    const link = resolveHintLink(hint, domain);
+    parts.push(`see: ${link.consoleUrl ?? link.docsUrl}`);
+  }
+  if (err.logId) parts.push(`log_id: ${err.logId}`);
+  return parts.join(" | ");
+}
+
+/**
+ * 将错误转换为 action 的结构化结果，附带错误码、提示和 log_id；
+ * 传入 domain 时提示使用对应的平台名称，需要在开发者后台处理的错误附带后台地址，其他附带文档地址
+ */
+export function toFeishuActionError(
+  err: FeishuApiError,
+  options: { domain?: FeishuErrorDomain } = {},
+) {
+  const scopes = err.permissionViolations
+    .map((violation) => violation.subject)
+    .filter((subject): subject is string => Boolean(subject));
+  const { domain } = options;
+  const hint = domain ? describeFeishuErrorCode(err.code, domain.label) : err.hint;
+  return {
+    ok: false as const,
+    error: hint ? `${err.message} (${hint})` : err.message,
+    code: err.code ?? err.status,
+    ...(err.logId ? { logId: err.logId } : {}),
+    ...(scopes.length > 0 ? { missingScopes: scopes } : {}),
+    ...(hint && domain ? resolveHintLink(hint, domain) : {}),
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * file: src/feishu/feedback.ts
+ * desc: 表情回复反馈：用户对机器人的回复添加或取消表情回复时，生成会话中的系统提示并通知注册的反馈钩子
+ */
+
+import type { FeishuLogger } from "./state.js";
+
+export type FeishuReactionFeedback = {
+  accountId: string;
+  action: "added" | "removed";
+  /** 被回复的机器人消息 */
+  messageId: string;
+  /** 飞书表情类型，如 THUMBSUP、ThumbsDown */
+  emoji: string;
+  userId: string;
+  userName?: string;
+  /** 机器人发送该消息时所在的会话 */
+  sessionKey: string;
+  chatId?: string;
+  /** 被回复消息的开头部分 */
+  excerpt?: string;
+  timestamp: number;
+};
+
+export type FeishuReactionFeedbackHook = (feedback: FeishuReactionFeedback) => void | Promise<void>;
+
+const EXCERPT_LENGTH = 80;
+
+/** 常见表情类型对应的 Unicode 表情，其他类型只显示类型名称 */
+const EMOJI_SYMBOLS: Record<string, string> = {
+  THUMBSUP: "👍",
+  THUMBSDOWN: "👎",
+  OK: "👌",
+  HEART: "❤️",
+  DONE: "✅",
+  APPLAUSE: "👏",
+  SMILE: "😊",
+  LAUGH: "😄",
+  CRY: "😢",
+  ANGRY: "😠",
+};
+
+const hooks = new Set<FeishuReactionFeedbackHook>();
+
+/**
+ * 注册表情回复反馈钩子，返回取消注册的函数
+ */
+export function onFeishuReactionFeedback(hook: FeishuReactionFeedbackHook): () => void {
+  hooks.add(hook);
+  return () => {
+    hooks.delete(hook);
+  };
+}
+
+/**
+ * 依次调用已注册的反馈钩子，单个钩子出错时记录日志并继续
+ */
+export async function emitFeishuReactionFeedback(
+  feedback: FeishuReactionFeedback,
+  log?: FeishuLogger,
+): Promise<void> {
+  for (const hook of Array.from(hooks)) {
+    try {
+      await hook(feedback);
+    } catch (err) {
+      log?.warn?.(`feishu reaction feedback hook failed: ${String(err)}`);
+    }
+  }
+}
+
+/** 截取消息开头作为摘要，供系统提示中指明是哪条回复 */
+export const buildFeishuMessageExcerpt = (text?: string): string | undefined => {
+  const normalized = text?.replace(/\s+/g, " ").trim();
+  if (!normalized) return undefined;
+  return normalized.length > EXCERPT_LENGTH
+    ? `${normalized.slice(0, EXCERPT_LENGTH - 1)}…`
+    : normalized;
+};
+
+/**
+ * 生成写入会话的系统提示，如：Feishu reaction: Alice reacted 👎 (ThumbsDown) to your reply "..."
+ */
+export function formatFeishuReactionFeedback(feedback: FeishuReactionFeedback): string {
+  const symbol = EMOJI_SYMBOLS[feedback.emoji.toUpperCase()];
+  const emoji = symbol ? `${symbol} (${feedback.emoji})` : feedback.emoji;
+  const who = feedback.userName ? `${feedback.userName} (${feedback.userId})` : feedback.userId;
+  const target = feedback.excerpt ? `your reply "${feedback.excerpt}"` : "your reply";
+  return feedback.action === "added"
+    ? `Feishu reaction: ${who} reacted ${emoji} to ${target}`
+    : `Feishu reaction: ${who} removed ${emoji} from ${target}`;
+}
@@ -3,22 +3,88 @@
  * desc: 飞书入站消息处理
  */
 
+import path from "node:path";
 import type { MoltbotConfig, ReplyPayload } from "openclaw/plugin-sdk";
 import { getFeishuRuntime } from "../runtime.js";
 import {
   normalizeFeishuAllowFrom,
   resolveFeishuAccount,
   resolveFeishuAllowFrom,
+  resolveFeishuAllowMentionAll,
+  resolveFeishuAutoAllowGroups,
+  resolveFeishuDeleteRepliesOnRecall,
+  resolveFeishuGroupAgentId,
   resolveFeishuGroupPolicy,
+  resolveFeishuGroupSystemPrompt,
   resolveFeishuRequireMention,
   resolveFeishuIgnoreOtherMentions,
+  isFeishuGroupConfigured,
   resolveFeishuReplyToMode,
+  resolveFeishuReplyFormat,
+  resolveFeishuReplyInThread,
+  resolveFeishuMediaMaxBytes,
+  resolveFeishuMediaLocalRoots,
+  resolveFeishuPersistDedupe,
+  resolveFeishuReactionFeedback,
+  resolveFeishuUserDirectory,
+  resolveFeishuStreaming,
   resolveFeishuBaseUrl,
+  resolveFeishuDomain,
+  resolveFeishuWelcomeMessage,
   type ResolvedFeishuAccount,
 } from "./config.js";
 import { FeishuClient } from "./client.js";
-import { sendFeishuText, sendFeishuMedia } from "./outbound.js";
-import { getState, type FeishuLogger } from "./state.js";
+import { chunkFeishuText, FEISHU_TEXT_CHUNK_LIMIT } from "./chunker.js";
+import { parseFeishuMessageContent, type FeishuMessageResource } from "./content.js";
+import { extractFeishuEventKeys } from "./dedupe.js";
+import { formatFeishuError } from "./errors.js";
+import {
+  buildFeishuMessageExcerpt,
+  emitFeishuReactionFeedback,
+  formatFeishuReactionFeedback,
+} from "./feedback.js";
+import {
+  downloadFeishuMessageResource,
+  pruneFeishuInboundMedia,
+  type FeishuInboundMedia,
+} from "./media.js";
+import {
+  fetchFeishuBotIdentity,
+  isFeishuBotMentioned,
+  isFeishuMentionAll,
+  listFeishuChatMembers,
+  type FeishuBotIdentity,
+  type FeishuMention,
+  type FeishuOutboundMentions,
+} from "./mentions.js";
+import {
+  deleteFeishuMessage,
+  editFeishuMessage,
+  normalizeFeishuTarget,
+  sendFeishuText,
+  sendFeishuMedia,
+} from "./outbound.js";
+import { FEISHU_MESSAGE_EDIT_LIMIT, FeishuReplyStream } from "./streaming.js";
+import {
+  getBotIdentity,
+  getCachedChatMembers,
+  getChatStore,
+  getDedupeStore,
+  getState,
+  getUserDirectory,
+  listSentReplies,
+  rememberInboundRun,
+  resolveInboundRun,
+  rememberEarlyRecall,
+  consumeEarlyRecall,
+  setBotIdentity,
+  setCachedChatMembers,
+  rememberSentMessage,
+  rememberThreadMessage,
+  resolveSentMessage,
+  type FeishuInboundRun,
+  type FeishuLogger,
+} from "./state.js";
 import { FEISHU_CHANNEL_ID } from "./schema.js";
 
 const createClient = (account: ResolvedFeishuAccount, cfg: MoltbotConfig) => {
@@ -29,9 +95,124 @@ const createClient = (account: ResolvedFeishuAccount, cfg: MoltbotConfig) => {
     appId: account.appId,
     appSecret: account.appSecret,
     baseUrl: resolveFeishuBaseUrl({ cfg, accountId: account.accountId }),
+    onRetry: () => {
+      getState(account.accountId).apiRetries += 1;
+    },
   });
 };
 
+/** 账户的去重存储，开启 persistDedupe 时持久化到插件状态目录 */
+const resolveDedupeStore = (
+  account: ResolvedFeishuAccount,
+  cfg: MoltbotConfig,
+  log?: FeishuLogger,
+) => {
+  const persist = resolveFeishuPersistDedupe({ cfg, accountId: account.accountId });
+  return getDedupeStore(account.accountId, {
+    filePath: persist
+      ? path.join(
+          getFeishuRuntime().state.resolveStateDir(),
+          FEISHU_CHANNEL_ID,
+          `dedupe-${account.accountId}.json`,
+        )
+      : undefined,
+    log,
+  });
+};
+
+/** 账户的用户目录缓存，开启 userDirectory.persist 时持久化到插件状态目录 */
+export const resolveUserDirectory = (
+  account: ResolvedFeishuAccount,
+  cfg: MoltbotConfig,
+  log?: FeishuLogger,
+) => {
+  const config = resolveFeishuUserDirectory({ cfg, accountId: account.accountId });
+  return getUserDirectory(account.accountId, {
+    ttlMs: config.ttlMs,
+    maxEntries: config.maxEntries,
+    filePath: config.persist
+      ? path.join(
+          getFeishuRuntime().state.resolveStateDir(),
+          FEISHU_CHANNEL_ID,
+          `users-${account.accountId}.json`,
+        )
+      : undefined,
+    log,
+  });
+};
+
+/** 账户的群聊记录（机器人所在的群、自动放行的群），持久化到插件状态目录 */
+export const resolveChatStore = (account: ResolvedFeishuAccount, log?: FeishuLogger) =>
+  getChatStore(account.accountId, {
+    filePath: path.join(
+      getFeishuRuntime().state.resolveStateDir(),
+      FEISHU_CHANNEL_ID,
+      `chats-${account.accountId}.json`,
+    ),
+    log,
+  });
+
+const botIdentityRequests = new Map<string, Promise<FeishuBotIdentity | undefined>>();
+
+/**
+ * 获取并缓存机器人自身身份（open_id），并发请求共享结果；失败时返回 undefined，下次调用时重试
+ */
+export const loadBotIdentity = async (
+  account: ResolvedFeishuAccount,
+  cfg: MoltbotConfig,
+  log?: FeishuLogger,
+): Promise<FeishuBotIdentity | undefined> => {
+  const cached = getBotIdentity(account.accountId);
+  if (cached) return cached;
+  if (!account.appId || !account.appSecret) return undefined;
+  const pending = botIdentityRequests.get(account.accountId);
+  if (pending) return await pending;
+  const task = fetchFeishuBotIdentity(createClient(account, cfg))
+    .then((identity) => {
+      setBotIdentity(account.accountId, identity);
+      log?.info?.(`feishu bot identity resolved: ${identity.name ?? "-"} (${identity.openId})`);
+      return identity;
+    })
+    .catch((err) => {
+      const domain = resolveFeishuDomain({ cfg, accountId: account.accountId });
+      log?.warn?.(`feishu bot identity lookup failed: ${formatFeishuError(err, domain)}`);
+      return undefined;
+    })
+    .finally(() => {
+      botIdentityRequests.delete(account.accountId);
+    });
+  botIdentityRequests.set(account.accountId, task);
+  return await task;
+};
+
+/**
+ * 发送到 target 时的 @ 提及选项：群聊按群配置决定是否允许 @all，并按需获取群成员解析 @名称
+ */
+export const resolveOutboundMentions = (
+  account: ResolvedFeishuAccount,
+  cfg: MoltbotConfig,
+  to: string,
+): FeishuOutboundMentions => {
+  const target = normalizeFeishuTarget(to);
+  const chatId = target.receiveIdType === "chat_id" ? target.receiveId : undefined;
+  return {
+    allowMentionAll: resolveFeishuAllowMentionAll({
+      cfg,
+      accountId: account.accountId,
+      groupId: chatId,
+    }),
+    resolveMembers: chatId
+      ? async () => {
+          const cached = getCachedChatMembers(account.accountId, chatId);
+          if (cached) return cached;
+          const members = await listFeishuChatMembers(createClient(account, cfg), chatId);
+          setCachedChatMembers(account.accountId, chatId, members);
+          return members;
+        }
+      : undefined,
+  };
+};
+
 const normalizeSenderId = (raw?: string | null) => (raw ?? "").trim();
 
 const hasAllowEntry = (allowFrom: string[], senderId: string) => {
@@ -41,14 +222,67 @@ const hasAllowEntry = (allowFrom: string[], senderId: string) => {
   return normalized.includes(senderId.toLowerCase());
 };
 
-const parseTextContent = (raw: string | undefined) => {
-  if (!raw) return "";
-  try {
-    const parsed = JSON.parse(raw) as { text?: string };
-    return parsed.text ?? "";
-  } catch {
-    return raw;
+/**
+ * 下载消息中的图片、文件等资源，单个资源失败时记录日志并跳过
+ */
+const downloadInboundMedia = async (params: {
+  client: FeishuClient;
+  accountId: string;
+  messageId: string;
+  resources: FeishuMessageResource[];
+  maxBytes: number;
+  log?: FeishuLogger;
+}): Promise<FeishuInboundMedia[]> => {
+  const media: FeishuInboundMedia[] = [];
+  for (const resource of params.resources) {
+    try {
+      media.push(
+        await downloadFeishuMessageResource({
+          client: params.client,
+          accountId: params.accountId,
+          messageId: params.messageId,
+          resource,
+          maxBytes: params.maxBytes,
+        }),
+      );
+    } catch (err) {
+      params.log?.warn?.(
+        `feishu inbound media skipped: message=${params.messageId} key=${resource.key} ${String(err)}`,
+      );
+    }
   }
+  if (media.length > 0) {
+    void pruneFeishuInboundMedia({ accountId: params.accountId }).catch((err) => {
+      params.log?.warn?.(`feishu inbound media cleanup failed: ${String(err)}`);
+    });
+  }
+  return media;
+};
+
+/**
+ * 群配置中固定了 agent 时，在路由使用的配置前插入该群的绑定，使其优先于顶级 bindings；
+ * 话题会话通过 parentPeer 匹配到同一绑定
+ */
+const withGroupAgentBinding = (
+  cfg: MoltbotConfig,
+  params: { accountId: string; chatId: string; agentId?: string },
+): MoltbotConfig => {
+  if (!params.agentId) return cfg;
+  const bindings = (cfg as { bindings?: unknown[] }).bindings ?? [];
+  return {
+    ...cfg,
+    bindings: [
+      {
+        agentId: params.agentId,
+        match: {
+          channel: FEISHU_CHANNEL_ID,
+          accountId: params.accountId,
+          peer: { kind: "group", id: params.chatId },
+        },
+      },
+      ...bindings,
+    ],
+  } as MoltbotConfig;
 };
 
 const shouldHandleGroup = (params: {
@@ -62,7 +296,15 @@ const shouldHandleGroup = (params: {
     cfg: params.cfg,
     accountId: params.account.accountId,
   });
-  if (policy === "allowlist" && !params.account.channels?.[params.chatId]) {
+  if (
+    policy === "allowlist" &&
+    !isFeishuGroupConfigured({
+      cfg: params.cfg,
+      accountId: params.account.accountId,
+      groupId: params.chatId,
+    }) &&
+    !resolveChatStore(params.account).isAllowed(params.chatId)
+  ) {
     return false;
   }
   const requireMention = resolveFeishuRequireMention({
@@ -122,7 +364,7 @@ async function handlePairing({
   if (!result.code) return;
   const reply = runtime.channel.pairing.buildPairingReply({
     channel: FEISHU_CHANNEL_ID,
-    idLine: `Feishu user: ${senderId}`,
+    idLine: `${resolveFeishuDomain({ cfg, accountId: account.accountId }).label} user: ${senderId}`,
     code: result.code,
   });
   await sendFeishuText({
@@ -139,18 +381,240 @@ export type InboundEventParams = {
   log?: FeishuLogger;
 };
 
+type FeishuEventContext = InboundEventParams & { account: ResolvedFeishuAccount };
+
+const readEventPayload = (event: Record<string, unknown>) =>
+  ((event as { event?: unknown })?.event ?? event ?? {}) as Record<string, unknown>;
+
+/**
+ * 机器人被拉入群：记录该群，按配置自动放行并发送欢迎消息。
+ * groupPolicy 为 allowlist 时仅当拉群的用户在私聊白名单（含配对通过的用户）中才自动放行，
+ * 未放行的群不发送欢迎消息
+ */
+async function handleBotAddedEvent(params: FeishuEventContext) {
+  const { account } = params;
+  const payload = readEventPayload(params.event) as {
+    chat_id?: string;
+    name?: string;
+    operator_id?: { user_id?: string; open_id?: string };
+  };
+  const chatId = payload.chat_id?.trim();
+  if (!chatId) {
+    params.log?.info?.("feishu bot added event ignored: missing chat_id");
+    return;
+  }
+  const operatorIds = [payload.operator_id?.user_id, payload.operator_id?.open_id]
+    .map(normalizeSenderId)
+    .filter(Boolean);
+  const groupPolicy = resolveFeishuGroupPolicy({ cfg: params.cfg, accountId: account.accountId });
+  let allowed: boolean | undefined;
+  if (
+    groupPolicy === "allowlist" &&
+    resolveFeishuAutoAllowGroups({ cfg: params.cfg, accountId: account.accountId })
+  ) {
+    const allowFrom = [
+      ...resolveFeishuAllowFrom({ cfg: params.cfg, accountId: account.accountId }),
+      ...(await getFeishuRuntime().channel.pairing.readAllowFromStore(FEISHU_CHANNEL_ID)),
+    ];
+    allowed = operatorIds.some((id) => hasAllowEntry(allowFrom, id));
+  }
+  const store = resolveChatStore(account, params.log);
+  store.upsert({ chatId, name: payload.name || undefined, addedBy: operatorIds[0], allowed });
+  params.log?.info?.(
+    `feishu bot added to chat: ${chatId} by ${operatorIds[0] ?? "unknown"}${allowed ? " (auto-allowed)" : ""}`,
+  );
+
+  if (
+    groupPolicy === "allowlist" &&
+    !isFeishuGroupConfigured({ cfg: params.cfg, accountId: account.accountId, groupId: chatId }) &&
+    !store.isAllowed(chatId)
+  ) {
+    params.log?.info?.(
+      `feishu chat ${chatId} is not allowlisted; add it to channels to enable replies`,
+    );
+    return;
+  }
+  const welcomeMessage = resolveFeishuWelcomeMessage({
+    cfg: params.cfg,
+    accountId: account.accountId,
+  });
+  if (!welcomeMessage) return;
+  const to = `chat:${chatId}`;
+  await sendFeishuText({
+    client: createClient(account, params.cfg),
+    to,
+    text: welcomeMessage,
+    format: resolveFeishuReplyFormat({
+      cfg: params.cfg,
+      accountId: account.accountId,
+      groupId: chatId,
+    }),
+    mentions: resolveOutboundMentions(account, params.cfg, to),
+  });
+  getState(account.accountId).lastOutboundAt = Date.now();
+}
+
+/**
+ * 机器人被移出群（或群解散）：删除该群的记录，自动放行随之撤销
+ */
+async function handleBotDeletedEvent(params: FeishuEventContext) {
+  const payload = readEventPayload(params.event) as { chat_id?: string };
+  const chatId = payload.chat_id?.trim();
+  if (!chatId) return;
+  resolveChatStore(params.account, params.log).remove(chatId);
+  params.log?.info?.(`feishu bot removed from chat: ${chatId}`);
+}
+
+/**
+ * 用户对机器人的回复添加或取消表情回复：以系统提示写入发送该回复的会话，并通知反馈钩子。
+ * 只处理插件记录过的回复，机器人自己的表情回复忽略
+ */
+async function handleReactionEvent(params: FeishuEventContext, action: "added" | "removed") {
+  const { account } = params;
+  const payload = readEventPayload(params.event) as {
+    message_id?: string;
+    reaction_type?: { emoji_type?: string };
+    operator_type?: string;
+    user_id?: { user_id?: string; open_id?: string };
+    action_time?: string;
+  };
+  const messageId = payload.message_id?.trim();
+  const emoji = payload.reaction_type?.emoji_type?.trim();
+  if (!messageId || !emoji || (payload.operator_type && payload.operator_type !== "user")) return;
+  const sent = resolveSentMessage(account.accountId, messageId);
+  if (!sent) return;
+  const userId = normalizeSenderId(payload.user_id?.user_id ?? payload.user_id?.open_id);
+  if (!userId) return;
+
+  const directory = resolveUserDirectory(account, params.cfg, params.log);
+  const profile = await directory.resolve(createClient(account, params.cfg), userId);
+  const feedback = {
+    accountId: account.accountId,
+    action,
+    messageId,
+    emoji,
+    userId,
+    userName: profile?.name,
+    sessionKey: sent.sessionKey,
+    chatId: sent.chatId,
+    excerpt: sent.excerpt,
+    timestamp: Number(payload.action_time) || Date.now(),
+  };
+  params.log?.info?.(
+    `feishu reaction ${action}: message=${messageId} emoji=${emoji} user=${userId}`,
+  );
+  if (resolveFeishuReactionFeedback({ cfg: params.cfg, accountId: account.accountId })) {
+    getFeishuRuntime().system.enqueueSystemEvent(formatFeishuReactionFeedback(feedback), {
+      sessionKey: sent.sessionKey,
+      contextKey: `feishu:reaction:${action}:${messageId}:${userId}:${emoji}`,
+    });
+  }
+  await emitFeishuReactionFeedback(feedback, params.log);
+}
+
+const deleteRecalledReply = async (
+  account: ResolvedFeishuAccount,
+  cfg: MoltbotConfig,
+  messageId: string,
+  log?: FeishuLogger,
+) => {
+  try {
+    await deleteFeishuMessage({ client: createClient(account, cfg), messageId });
+  } catch (err) {
+    const domain = resolveFeishuDomain({ cfg, accountId: account.accountId });
+    log?.warn?.(
+      `feishu recalled reply delete failed: ${messageId} ${formatFeishuError(err, domain)}`,
+    );
+  }
+};
+
+/**
+ * 用户撤回消息：中止仍在生成的回复，在会话中标记该消息已撤回，
+ * 开启 deleteRepliesOnRecall 时同时撤回机器人对该消息的回复
+ */
+async function handleRecallEvent(params: FeishuEventContext) {
+  const { account } = params;
+  const payload = readEventPayload(params.event) as { message_id?: string };
+  const messageId = payload.message_id?.trim();
+  if (!messageId) return;
+  const run = resolveInboundRun(account.accountId, messageId);
+  if (!run) {
+    // 消息可能仍在处理记录建立之前的步骤中，记录下来由 handleMessageEvent 检查
+    rememberEarlyRecall(account.accountId, messageId);
+    params.log?.info?.(`feishu recall recorded: ${messageId} has no run yet`);
+    return;
+  }
+  if (run.recalled) return;
+  run.recalled = true;
+  if (run.active) {
+    run.abort.abort();
+    params.log?.info?.(`feishu reply aborted: message ${messageId} was recalled`);
+  }
+
+  getFeishuRuntime().system.enqueueSystemEvent(
+    `Feishu: the user recalled their message${run.excerpt ? ` "${run.excerpt}"` : ""} (${messageId}); disregard it.`,
+    { sessionKey: run.sessionKey, contextKey: `feishu:recall:${messageId}` },
+  );
+
+  if (!resolveFeishuDeleteRepliesOnRecall({ cfg: params.cfg, accountId: account.accountId })) {
+    return;
+  }
+  for (const replyId of listSentReplies(account.accountId, messageId)) {
+    await deleteRecalledReply(account, params.cfg, replyId, params.log);
+  }
+}
+
+/** 按 event_type 分发的事件处理函数，未列出的事件按消息事件处理 */
+const eventHandlers = new Map<string, (params: FeishuEventContext) => Promise<unknown>>([
+  ["im.chat.member.bot.added_v1", handleBotAddedEvent],
+  ["im.chat.member.bot.deleted_v1", handleBotDeletedEvent],
+  ["im.message.reaction.created_v1", (params) => handleReactionEvent(params, "added")],
+  ["im.message.reaction.deleted_v1", (params) => handleReactionEvent(params, "removed")],
+  ["im.message.recalled_v1", handleRecallEvent],
+]);
+
+const readEventType = (event: Record<string, unknown>) =>
+  (event as { header?: { event_type?: string } })?.header?.event_type;
+
+/**
+ * 撤回、表情回复、机器人进出群等事件处理很快且不调用 agent，
+ * HTTP 回调中无需排在正在生成回复的消息之后（撤回需要及时中止这些回复）
+ */
+export const isFeishuLifecycleEvent = (event: Record<string, unknown>): boolean => {
+  const eventType = readEventType(event);
+  return Boolean(eventType && eventHandlers.has(eventType));
+};
+
 export async function handleInboundEvent(params: InboundEventParams) {
-  const runtime = getFeishuRuntime();
   const account = resolveFeishuAccount({ cfg: params.cfg, accountId: params.accountId });
 
-  const eventPayload = ((params.event as { event?: unknown })?.event ?? params.event ?? {}) as {
+  // 飞书未及时收到确认时会重推事件，WebSocket 与 HTTP 回调共用去重记录
+  const eventKeys = extractFeishuEventKeys(params.event);
+  if (resolveDedupeStore(account, params.cfg, params.log).check(eventKeys)) {
+    getState(account.accountId).duplicatesDropped += 1;
+    params.log?.info?.(`feishu inbound duplicate dropped: ${eventKeys.join(" ")}`);
+    return;
+  }
+
+  const eventType = readEventType(params.event);
+  const handler = (eventType && eventHandlers.get(eventType)) || handleMessageEvent;
+  return await handler({ ...params, account });
+}
+
+async function handleMessageEvent(params: FeishuEventContext) {
+  const runtime = getFeishuRuntime();
+  const { account } = params;
+
+  const eventPayload = readEventPayload(params.event) as {
     message?: {
       message_id?: string;
+      root_id?: string;
+      thread_id?: string;
       chat_id?: string;
       chat_type?: string;
       message_type?: string;
       content?: string;
-      mentions?: Array<{ name?: string; id?: { user_id?: string } }>;
+      mentions?: FeishuMention[];
     };
     sender?: {
       sender_type?: string;
@@ -185,23 +649,20 @@ export async function handleInboundEvent(params: InboundEventParams) {
   const allowFromStore = await runtime.channel.pairing.readAllowFromStore(FEISHU_CHANNEL_ID);
   const allowFrom = [...allowFromConfig, ...allowFromStore];
 
-  /* Refined mention check */
+  // 按机器人的 open_id 判断是否被 @；未能获取机器人身份时按配置的名称匹配
   const mentions = message.mentions || [];
-  const accountName = account.name?.trim().toLowerCase();
-
   const hasAnyMention = mentions.length > 0;
-  let wasMentioned = hasAnyMention;
-
-  if (wasMentioned && accountName) {
-    const isSelfMentioned = mentions.some((m) => m.name && m.name.toLowerCase().includes(accountName));
-    // Check for @all (Feishu key is 'all', or name might be localized)
-    const isAllMentioned = mentions.some(
-      (m: any) => m.key === "all" || m.name === "all" || m.name === "所有人",
-    );
-    wasMentioned = isSelfMentioned || isAllMentioned;
-
-    // We do NOT log "inbound ignored" here yet, because we might process it if requireMention is false.
-  }
+  const botIdentity = hasAnyMention
+    ? await loadBotIdentity(account, params.cfg, params.log)
+    : getBotIdentity(account.accountId);
+  const wasMentioned =
+    hasAnyMention &&
+    (isFeishuBotMentioned({
+      mentions,
+      botOpenId: botIdentity?.openId,
+      botName: account.name,
+    }) ||
+      mentions.some(isFeishuMentionAll));
 
   if (chatType === "group") {
     const allowed = shouldHandleGroup({
@@ -220,9 +681,10 @@ export async function handleInboundEvent(params: InboundEventParams) {
       }
       return;
     }
+    // 通过群策略后才记录该群；记录未变化时不会重复写入
+    resolveChatStore(account, params.log).upsert({ chatId: message.chat_id });
   }
 
-
   if (chatType === "direct") {
     const dmPolicy = account.dm?.policy ?? "pairing";
     const allowed = shouldAllowDm({
@@ -238,23 +700,105 @@ export async function handleInboundEvent(params: InboundEventParams) {
     }
   }
 
+  const groupId = chatType === "group" ? message.chat_id : undefined;
+  // 话题内的消息始终在话题内回复；开启 replyInThread 时群消息的回复会新建话题
+  const threadId = message.thread_id?.trim() || undefined;
+  const replyInThread =
+    chatType === "group" &&
+    (Boolean(threadId) ||
+      resolveFeishuReplyInThread({
+        cfg: params.cfg,
+        accountId: account.accountId,
+        groupId: message.chat_id,
+      }));
+  // 话题会话以根消息标识：机器人新建话题时首条消息尚无 thread_id，
+  // 以根消息 ID 可使其与话题内的后续消息落在同一会话
+  const threadRootId = replyInThread ? message.root_id || message.message_id : undefined;
+  if (threadId) {
+    rememberThreadMessage(account.accountId, threadId, message.message_id);
+  }
+
   const route = runtime.channel.routing.resolveAgentRoute({
-    cfg: params.cfg,
+    cfg: groupId
+      ? withGroupAgentBinding(params.cfg, {
+          accountId: account.accountId,
+          chatId: groupId,
+          agentId: resolveFeishuGroupAgentId({
+            cfg: params.cfg,
+            accountId: account.accountId,
+            groupId,
+          }),
+        })
+      : params.cfg,
     channel: FEISHU_CHANNEL_ID,
     accountId: account.accountId,
     peer: {
       kind: chatType === "direct" ? "dm" : "group",
-      id: chatType === "direct" ? senderId : message.chat_id,
+      id:
+        chatType === "direct"
+          ? senderId
+          : threadRootId
+            ? `${message.chat_id}:thread:${threadRootId}`
+            : message.chat_id,
     },
+    // 话题会话继承所在群的绑定
+    ...(threadRootId ? { parentPeer: { kind: "group", id: message.chat_id } } : {}),
+  });
+
+  const mediaMaxBytes = resolveFeishuMediaMaxBytes({
+    cfg: params.cfg,
+    accountId: account.accountId,
   });
+  const parsedContent = parseFeishuMessageContent({
+    messageType: message.message_type,
+    content: message.content,
+    mentions: message.mentions,
+    botOpenId: botIdentity?.openId,
+  });
+  const body = parsedContent.text;
+  if (consumeEarlyRecall(account.accountId, message.message_id)) {
+    params.log?.info?.(`feishu inbound recalled before dispatch: ${message.message_id}`);
+    return;
+  }
+  // 用户撤回消息时通过 abort 中止回复，见 handleRecallEvent
+  const run: FeishuInboundRun = {
+    sessionKey: route.sessionKey,
+    abort: new AbortController(),
+    active: true,
+    recalled: false,
+    excerpt: buildFeishuMessageExcerpt(body),
+  };
+  rememberInboundRun(account.accountId, message.message_id, run);
+  const media =
+    parsedContent.resources.length > 0
+      ? await downloadInboundMedia({
+          client: createClient(account, params.cfg),
+          accountId: account.accountId,
+          messageId: message.message_id,
+          resources: parsedContent.resources,
+          maxBytes: mediaMaxBytes,
+          log: params.log,
+        })
+      : [];
 
-  const textBody = message.message_type === "text" ? parseTextContent(message.content) : "";
-  const body =
-    textBody || `[Feishu ${message.message_type ?? "message"}] ${parseTextContent(message.content)}`;
+  // 通讯录查询失败（如缺少权限）时回退为用户 ID；被 @ 的用户在后台查询，供后续使用
+  const directory = resolveUserDirectory(account, params.cfg, params.log);
+  const directoryClient = createClient(account, params.cfg);
+  const senderProfile = await directory.resolve(directoryClient, senderId);
+  for (const mention of message.mentions ?? []) {
+    const mentionId =
+      typeof mention.id === "string" ? mention.id : mention.id?.user_id || mention.id?.open_id;
+    if (mentionId) void directory.resolve(directoryClient, mentionId);
+  }
+  if (run.recalled) {
+    run.active = false;
+    params.log?.info?.(`feishu inbound recalled before dispatch: ${message.message_id}`);
+    return;
+  }
 
   const ctxPayload = runtime.channel.reply.finalizeInboundContext({
     Body: body,
-    RawBody: textBody || body,
+    RawBody: body,
     From: senderId,
     To: replyTarget,
     AccountId: account.accountId,
@@ -263,11 +807,25 @@ export async function handleInboundEvent(params: InboundEventParams) {
     ChatType: chatType,
     MessageSid: message.message_id,
     ReplyToId: message.message_id,
+    MessageThreadId: threadId,
     WasMentioned: wasMentioned,
+    // 群 ID 用于 groups.resolveToolPolicy 按群解析工具策略（话题会话的会话 key 带有话题后缀）
+    GroupChannel: groupId,
+    GroupSystemPrompt: resolveFeishuGroupSystemPrompt({
+      cfg: params.cfg,
+      accountId: account.accountId,
+      groupId,
+    }),
     SenderId: senderId,
-    SenderName: eventPayload.sender?.sender_id?.user_id,
+    SenderName: senderProfile?.name ?? senderId,
     Timestamp: Number((params.event.header as { create_time?: string })?.create_time) || undefined,
     SessionKey: route.sessionKey,
+    MediaPath: media[0]?.path,
+    MediaUrl: media[0]?.path,
+    MediaType: media[0]?.contentType,
+    MediaPaths: media.length > 0 ? media.map((item) => item.path) : undefined,
+    MediaUrls: media.length > 0 ? media.map((item) => item.path) : undefined,
+    MediaTypes: media.length > 0 ? media.map((item) => item.contentType ?? "") : undefined,
   });
 
   const storePath = runtime.channel.session.resolveStorePath(params.cfg.session?.store, {
@@ -283,7 +841,7 @@ export async function handleInboundEvent(params: InboundEventParams) {
       channel: FEISHU_CHANNEL_ID,
       to: replyTarget,
       accountId: account.accountId,
-      threadId: message.message_id,
+      threadId,
     },
     onRecordError: (err) => {
       params.log?.error?.(`feishu session record failed: ${String(err)}`);
@@ -293,40 +851,146 @@ export async function handleInboundEvent(params: InboundEventParams) {
   const replyToMode = resolveFeishuReplyToMode({
     cfg: params.cfg,
     accountId: account.accountId,
+    groupId,
   });
 
+  const replyFormat = resolveFeishuReplyFormat({
+    cfg: params.cfg,
+    accountId: account.accountId,
+    groupId,
+  });
+
+  const outboundMentions = resolveOutboundMentions(account, params.cfg, replyTarget);
   const hasRepliedRef = { value: false };
-  const { dispatcher, replyOptions, markDispatchIdle } =
-    runtime.channel.reply.createReplyDispatcherWithTyping({
-      deliver: async (payload: ReplyPayload) => {
-        const replyToId =
-          replyToMode === "off"
-            ? undefined
-            : replyToMode === "first" && hasRepliedRef.value
-              ? undefined
-              : message.message_id;
-        if (payload.mediaUrl) {
-          await sendFeishuMedia({
+  // 话题回复必须以回复消息的方式发送，不受 replyToMode 影响
+  const resolveReplyToId = () =>
+    replyInThread
+      ? message.message_id
+      : replyToMode === "off"
+        ? undefined
+        : replyToMode === "first" && hasRepliedRef.value
+          ? undefined
+          : message.message_id;
+  const deleteRepliesOnRecall = resolveFeishuDeleteRepliesOnRecall({
+    cfg: params.cfg,
+    accountId: account.accountId,
+  });
+  // 记录发出的回复：话题内的最近消息用于继续在话题内回复，已发送消息用于关联表情回复和撤回
+  const trackReply = (result: { messageId?: string; threadId?: string }, text?: string) => {
+    if (!result.messageId) return result;
+    if (result.threadId) {
+      rememberThreadMessage(account.accountId, result.threadId, result.messageId);
+    }
+    rememberSentMessage(account.accountId, result.messageId, {
+      sessionKey: route.sessionKey,
+      chatId: message.chat_id,
+      excerpt: buildFeishuMessageExcerpt(text),
+      replyTo: message.message_id,
+      sentAt: Date.now(),
+    });
+    // 撤回处理时仍在发送中的回复，发送完成后再撤回
+    if (run.recalled && deleteRepliesOnRecall) {
+      void deleteRecalledReply(account, params.cfg, result.messageId, params.log);
+    }
+    return result;
+  };
+
+  const stream = resolveFeishuStreaming({ cfg: params.cfg, accountId: account.accountId })
+    ? new FeishuReplyStream({
+        send: async (text) => {
+          const result = await sendFeishuText({
             client: createClient(account, params.cfg),
             to: replyTarget,
-            text: payload.text,
-            mediaUrl: payload.mediaUrl,
-            replyToId,
+            text,
+            replyToId: resolveReplyToId(),
+            replyInThread,
+            format: replyFormat,
+            mentions: outboundMentions,
           });
-        } else if (payload.text) {
-          await sendFeishuText({
+          hasRepliedRef.value = true;
+          return trackReply(result, text);
+        },
+        edit: (messageId, text) =>
+          editFeishuMessage({
             client: createClient(account, params.cfg),
-            to: replyTarget,
-            text: payload.text,
-            replyToId,
-          });
+            messageId,
+            text,
+            format: replyFormat,
+            mentions: outboundMentions,
+          }),
+        maxEdits: replyFormat === "card" ? undefined : FEISHU_MESSAGE_EDIT_LIMIT,
+        format: replyFormat,
+        log: params.log,
+      })
+    : null;
+  if (stream) run.abort.signal.addEventListener("abort", () => stream.cancel(), { once: true });
+
+  const { dispatcher, replyOptions, markDispatchIdle } =
+    runtime.channel.reply.createReplyDispatcherWithTyping({
+      deliver: async (payload: ReplyPayload) => {
+        // 消息已被撤回，不再发送后续回复
+        if (run.abort.signal.aborted) return;
+        const mediaUrls = payload.mediaUrls?.length
+          ? payload.mediaUrls
+          : payload.mediaUrl
+            ? [payload.mediaUrl]
+            : [];
+        if (mediaUrls.length > 0) {
+          // 流式模式下先结束正在编辑的消息（文本写入其中），媒体之后的输出另起一条流式消息
+          const streamed = stream ? await stream.finalize(payload.text) : null;
+          let caption = streamed ? streamed.remaining : payload.text;
+          for (const mediaUrl of mediaUrls) {
+            if (run.abort.signal.aborted) break;
+            trackReply(
+              await sendFeishuMedia({
+                client: createClient(account, params.cfg),
+                to: replyTarget,
+                text: caption,
+                mediaUrl,
+                replyToId: resolveReplyToId(),
+                replyInThread,
+                format: replyFormat,
+                maxBytes: mediaMaxBytes,
+                localRoots: resolveFeishuMediaLocalRoots({
+                  cfg: params.cfg,
+                  accountId: account.accountId,
+                }),
+                mentions: outboundMentions,
+              }),
+              caption,
+            );
+            hasRepliedRef.value = true;
+            caption = undefined;
+          }
+        } else if (payload.text) {
+          // 流式模式下最终文本写入正在编辑的消息，失败时以普通消息发送剩余内容
+          const streamed = stream ? await stream.finalize(payload.text) : null;
+          const text = streamed ? streamed.remaining : payload.text;
+          const chunks = chunkFeishuText(text, FEISHU_TEXT_CHUNK_LIMIT, { format: replyFormat });
+          for (const chunk of chunks) {
+            if (run.abort.signal.aborted) break;
+            trackReply(
+              await sendFeishuText({
+                client: createClient(account, params.cfg),
+                to: replyTarget,
+                text: chunk,
+                replyToId: resolveReplyToId(),
+                replyInThread,
+                format: replyFormat,
+                mentions: outboundMentions,
+              }),
+              chunk,
+            );
+            hasRepliedRef.value = true;
+          }
         }
         hasRepliedRef.value = true;
         const state = getState(account.accountId);
         state.lastOutboundAt = Date.now();
       },
       onError: (err) => {
-        params.log?.error?.(`feishu reply failed: ${String(err)}`);
+        const domain = resolveFeishuDomain({ cfg: params.cfg, accountId: account.accountId });
+        params.log?.error?.(`feishu reply failed: ${formatFeishuError(err, domain)}`);
       },
     });
 
@@ -338,11 +1002,21 @@ export async function handleInboundEvent(params: InboundEventParams) {
       replyOptions: {
         ...replyOptions,
         hasRepliedRef,
+        abortSignal: run.abort.signal,
+        ...(stream
+          ? {
+              disableBlockStreaming: true,
+              onPartialReply: (partial: ReplyPayload) => {
+                if (partial.text && !run.abort.signal.aborted) stream.update(partial.text);
+              },
+            }
+          : {}),
       },
     });
     markDispatchIdle();
     return result;
   } finally {
+    run.active = false;
     const state = getState(account.accountId);
     state.lastInboundAt = Date.now();
   }
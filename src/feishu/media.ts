@@ -0,0 +1,393 @@
+/**
+ * file: src/feishu/media.ts
+ * desc: 飞书媒体文件的加载、类型识别与上传
+ */
+
+import crypto from "node:crypto";
+import { mkdir, readdir, readFile, realpath, rm, stat, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { FeishuClient, readFeishuResponseBody } from "./client.js";
+import type { FeishuMessageResource } from "./content.js";
+
+export type FeishuFileType = "opus" | "mp4" | "pdf" | "doc" | "xls" | "ppt" | "stream";
+
+export type LoadedMedia = {
+  buffer: Buffer;
+  contentType?: string;
+  fileName: string;
+};
+
+export type FeishuMediaKind =
+  | { kind: "image" }
+  | { kind: "file"; fileType: FeishuFileType }
+  | { kind: "audio"; fileType: "opus" }
+  | { kind: "media"; fileType: "mp4" };
+
+export type FeishuUploadedMedia =
+  | { kind: "image"; key: string }
+  | { kind: "file"; key: string }
+  | { kind: "audio"; key: string }
+  | { kind: "media"; key: string };
+
+/** 飞书图片上传上限 10MB，超出时按文件上传 */
+const IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp", ".bmp", ".ico", ".tif", ".tiff", ".heic"]);
+
+const FILE_TYPE_BY_EXTENSION: Record<string, FeishuFileType> = {
+  ".opus": "opus",
+  ".ogg": "opus",
+  ".mp4": "mp4",
+  ".pdf": "pdf",
+  ".doc": "doc",
+  ".docx": "doc",
+  ".xls": "xls",
+  ".xlsx": "xls",
+  ".csv": "xls",
+  ".ppt": "ppt",
+  ".pptx": "ppt",
+};
+
+const EXTENSION_BY_CONTENT_TYPE: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/bmp": ".bmp",
+  "image/tiff": ".tiff",
+  "image/x-icon": ".ico",
+  "audio/ogg": ".ogg",
+  "audio/opus": ".opus",
+  "video/mp4": ".mp4",
+  "application/pdf": ".pdf",
+  "application/msword": ".doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+  "application/vnd.ms-excel": ".xls",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+  "text/csv": ".csv",
+  "application/vnd.ms-powerpoint": ".ppt",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": ".pptx",
+};
+
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+const assertSize = (size: number, maxBytes?: number) => {
+  if (maxBytes !== undefined && size > maxBytes) {
+    throw new Error(`Feishu media exceeds limit: ${formatMb(size)} > ${formatMb(maxBytes)}`);
+  }
+};
+
+const normalizeContentType = (raw?: string | null) =>
+  raw?.split(";")[0]?.trim().toLowerCase() || undefined;
+
+const startsWithBytes = (buffer: Buffer, bytes: number[], offset = 0) =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+
+/** 通过文件头识别常见格式，返回 MIME 类型 */
+export function sniffContentType(buffer: Buffer): string | undefined {
+  if (startsWithBytes(buffer, [0x89, 0x50, 0x4e, 0x47])) return "image/png";
+  if (startsWithBytes(buffer, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWithBytes(buffer, [0x47, 0x49, 0x46, 0x38])) return "image/gif";
+  if (startsWithBytes(buffer, [0x52, 0x49, 0x46, 0x46]) && startsWithBytes(buffer, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return "image/webp";
+  }
+  if (startsWithBytes(buffer, [0x42, 0x4d])) return "image/bmp";
+  if (startsWithBytes(buffer, [0x25, 0x50, 0x44, 0x46])) return "application/pdf";
+  if (startsWithBytes(buffer, [0x4f, 0x67, 0x67, 0x53])) return "audio/ogg";
+  if (startsWithBytes(buffer, [0x66, 0x74, 0x79, 0x70], 4)) return "video/mp4";
+  return undefined;
+}
+
+/**
+ * 判断媒体应以何种消息类型发送
+ * - 图片（10MB 以内）→ image
+ * - opus/ogg 音频 → audio
+ * - mp4 视频 → media
+ * - 其余按扩展名映射 file_type，无法识别时为 stream
+ */
+export function detectFeishuMediaKind(media: LoadedMedia): FeishuMediaKind {
+  const contentType = normalizeContentType(media.contentType) ?? sniffContentType(media.buffer);
+  const extension =
+    path.extname(media.fileName).toLowerCase() ||
+    (contentType ? EXTENSION_BY_CONTENT_TYPE[contentType] ?? "" : "");
+
+  const isImage = contentType?.startsWith("image/") || IMAGE_EXTENSIONS.has(extension);
+  if (isImage && media.buffer.length <= IMAGE_MAX_BYTES) {
+    return { kind: "image" };
+  }
+  const fileType =
+    FILE_TYPE_BY_EXTENSION[extension] ??
+    (contentType ? FILE_TYPE_BY_EXTENSION[EXTENSION_BY_CONTENT_TYPE[contentType] ?? ""] : undefined) ??
+    "stream";
+  if (fileType === "opus") return { kind: "audio", fileType };
+  if (fileType === "mp4") return { kind: "media", fileType };
+  return { kind: "file", fileType };
+}
+
+const parseDataUrl = (url: string): LoadedMedia => {
+  const match = url.match(/^data:([^,]*?),(.*)$/s);
+  if (!match) {
+    throw new Error("Feishu media: invalid data url");
+  }
+  const meta = match[1];
+  const isBase64 = /;base64$/i.test(meta);
+  const contentType = normalizeContentType(meta.replace(/;base64$/i, "")) || undefined;
+  const buffer = isBase64
+    ? Buffer.from(match[2], "base64")
+    : Buffer.from(decodeURIComponent(match[2]), "utf8");
+  const extension = contentType ? EXTENSION_BY_CONTENT_TYPE[contentType] ?? "" : "";
+  return { buffer, contentType, fileName: `file${extension}` };
+};
+
+const parseContentDispositionName = (raw: string | null) => {
+  if (!raw) return undefined;
+  const encoded = raw.match(/filename\*=(?:UTF-8'')?([^;]+)/i);
+  if (encoded) return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ""));
+  const plain = raw.match(/filename="?([^";]+)"?/i);
+  return plain?.[1]?.trim();
+};
+
+const fetchRemoteMedia = async (url: string, maxBytes?: number): Promise<LoadedMedia> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Feishu media download failed: ${response.status} ${response.statusText}`);
+  }
+  const buffer = await readFeishuResponseBody(response, maxBytes, "Feishu media");
+  const fileName =
+    parseContentDispositionName(response.headers.get("content-disposition")) ??
+    (path.basename(new URL(url).pathname) || "file");
+  return {
+    buffer,
+    contentType: normalizeContentType(response.headers.get("content-type")),
+    fileName,
+  };
+};
+
+const resolveLocalPath = (raw: string) => {
+  if (raw.startsWith("file://")) return fileURLToPath(raw);
+  if (raw === "~" || raw.startsWith("~/")) return path.join(os.homedir(), raw.slice(1));
+  return path.resolve(raw);
+};
+
+const isInsideDir = (dir: string, target: string) => {
+  const relative = path.relative(dir, target);
+  return relative !== "" && relative.split(path.sep)[0] !== ".." && !path.isAbsolute(relative);
+};
+
+/**
+ * 本地文件（解析符号链接后）必须位于允许的目录内，避免将配置文件、密钥等任意文件发送到聊天中
+ */
+const resolveAllowedLocalPath = async (raw: string, localRoots: string[]) => {
+  const filePath = await realpath(resolveLocalPath(raw));
+  for (const root of localRoots) {
+    const realRoot = await realpath(resolveLocalPath(root)).catch(() => undefined);
+    if (realRoot && isInsideDir(realRoot, filePath)) return filePath;
+  }
+  throw new Error(`Feishu media: local path is outside the allowed media roots: ${raw}`);
+};
+
+const readLocalMedia = async (
+  raw: string,
+  localRoots: string[],
+  maxBytes?: number,
+): Promise<LoadedMedia> => {
+  const filePath = await resolveAllowedLocalPath(raw, localRoots);
+  const info = await stat(filePath);
+  if (!info.isFile()) {
+    throw new Error(`Feishu media: not a file: ${filePath}`);
+  }
+  assertSize(info.size, maxBytes);
+  return { buffer: await readFile(filePath), fileName: path.basename(filePath) };
+};
+
+/**
+ * 加载媒体内容，支持 http(s) 地址、data: URL 和本地路径（含 file://）；
+ * 本地路径仅允许 localRoots 内的文件，未指定时仅允许插件的待发送媒体目录
+ */
+export async function loadFeishuMedia(
+  mediaUrl: string,
+  options: { maxBytes?: number; localRoots?: string[] } = {},
+): Promise<LoadedMedia> {
+  const url = mediaUrl.trim();
+  if (url.startsWith("data:")) {
+    const media = parseDataUrl(url);
+    assertSize(media.buffer.length, options.maxBytes);
+    return media;
+  }
+  if (/^https?:\/\//i.test(url)) {
+    return await fetchRemoteMedia(url, options.maxBytes);
+  }
+  const localRoots = options.localRoots ?? [resolveFeishuOutboundMediaDir()];
+  return await readLocalMedia(url, localRoots, options.maxBytes);
+}
+
+const toBlob = (media: LoadedMedia) =>
+  new Blob([media.buffer], { type: media.contentType ?? "application/octet-stream" });
+
+export async function uploadFeishuImage(params: {
+  client: FeishuClient;
+  media: LoadedMedia;
+}): Promise<string> {
+  const form = new FormData();
+  form.append("image_type", "message");
+  form.append("image", toBlob(params.media), params.media.fileName);
+  const response = await params.client.request<{ image_key?: string }>({
+    method: "POST",
+    path: "/im/v1/images",
+    form,
+  });
+  const key = response.data?.image_key;
+  if (!key) {
+    throw new Error("Feishu image upload failed: missing image_key");
+  }
+  return key;
+}
+
+export async function uploadFeishuFile(params: {
+  client: FeishuClient;
+  media: LoadedMedia;
+  fileType: FeishuFileType;
+}): Promise<string> {
+  const form = new FormData();
+  form.append("file_type", params.fileType);
+  form.append("file_name", params.media.fileName);
+  form.append("file", toBlob(params.media), params.media.fileName);
+  const response = await params.client.request<{ file_key?: string }>({
+    method: "POST",
+    path: "/im/v1/files",
+    form,
+  });
+  const key = response.data?.file_key;
+  if (!key) {
+    throw new Error("Feishu file upload failed: missing file_key");
+  }
+  return key;
+}
+
+/**
+ * 加载并上传媒体，返回可直接发送的 key
+ */
+export async function uploadFeishuMedia(params: {
+  client: FeishuClient;
+  mediaUrl: string;
+  maxBytes?: number;
+  localRoots?: string[];
+}): Promise<FeishuUploadedMedia> {
+  const media = await loadFeishuMedia(params.mediaUrl, {
+    maxBytes: params.maxBytes,
+    localRoots: params.localRoots,
+  });
+  const detected = detectFeishuMediaKind(media);
+  if (detected.kind === "image") {
+    return { kind: "image", key: await uploadFeishuImage({ client: params.client, media }) };
+  }
+  const key = await uploadFeishuFile({ client: params.client, media, fileType: detected.fileType });
+  return { kind: detected.kind, key };
+}
+
+export type FeishuInboundMedia = {
+  path: string;
+  contentType?: string;
+  fileName?: string;
+};
+
+/** 插件的临时目录，入站与待发送的媒体分别放在其中的子目录 */
+const resolveFeishuTempDir = () => path.join(os.tmpdir(), "openclaw-feishu");
+
+/** 入站媒体保存目录：<tmp>/openclaw-feishu/inbound/<accountId> */
+export const resolveFeishuInboundMediaDir = (accountId: string) =>
+  path.join(resolveFeishuTempDir(), "inbound", accountId.replace(/[^\w.-]/g, "_"));
+
+/**
+ * 待发送媒体的默认目录：<tmp>/openclaw-feishu/outbound；
+ * 与入站目录分开，避免一个会话中的 agent 读取其他会话或账户收到的附件
+ */
+export const resolveFeishuOutboundMediaDir = () => path.join(resolveFeishuTempDir(), "outbound");
+
+/**
+ * 下载消息中的资源并保存到本地
+ */
+export async function downloadFeishuMessageResource(params: {
+  client: FeishuClient;
+  accountId: string;
+  messageId: string;
+  resource: FeishuMessageResource;
+  maxBytes?: number;
+}): Promise<FeishuInboundMedia> {
+  const { resource } = params;
+  const downloaded = await params.client.download({
+    path: `/im/v1/messages/${params.messageId}/resources/${resource.key}`,
+    query: { type: resource.type === "image" ? "image" : "file" },
+    maxBytes: params.maxBytes,
+  });
+  const declared = normalizeContentType(downloaded.contentType);
+  const contentType =
+    declared && declared !== "application/octet-stream"
+      ? declared
+      : sniffContentType(downloaded.buffer) ?? declared;
+  const fileName = resource.fileName ?? downloaded.fileName;
+  const extension =
+    (fileName ? path.extname(fileName) : "") ||
+    (contentType ? EXTENSION_BY_CONTENT_TYPE[contentType] ?? "" : "");
+
+  const dir = resolveFeishuInboundMediaDir(params.accountId);
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, `${params.messageId}-${crypto.randomUUID()}${extension}`);
+  await writeFile(filePath, downloaded.buffer);
+  return { path: filePath, contentType, fileName };
+}
+
+/** 入站媒体的保留时长，超过后删除 */
+const INBOUND_MEDIA_TTL_MS = 24 * 60 * 60 * 1000;
+/** 单个账户入站媒体目录的总大小上限，超出后从最早的文件开始删除 */
+const INBOUND_MEDIA_MAX_TOTAL_BYTES = 1024 * 1024 * 1024;
+/** 最近保存的文件可能仍在被 agent 读取，按大小清理时跳过 */
+const INBOUND_MEDIA_MIN_AGE_MS = 10 * 60 * 1000;
+
+/** 正在清理的账户，避免连续下载时重复遍历目录 */
+const pruningAccounts = new Set<string>();
+
+/**
+ * 清理账户的入站媒体目录：删除超过保留时长的文件，总大小超出上限时再从最早的文件开始删除。
+ * 账户启动时和每次下载后调用；返回删除的文件数
+ */
+export async function pruneFeishuInboundMedia(params: {
+  accountId: string;
+  ttlMs?: number;
+  maxTotalBytes?: number;
+  now?: number;
+}): Promise<number> {
+  if (pruningAccounts.has(params.accountId)) return 0;
+  pruningAccounts.add(params.accountId);
+  try {
+    const dir = resolveFeishuInboundMediaDir(params.accountId);
+    const now = params.now ?? Date.now();
+    const ttlMs = params.ttlMs ?? INBOUND_MEDIA_TTL_MS;
+    const maxTotalBytes = params.maxTotalBytes ?? INBOUND_MEDIA_MAX_TOTAL_BYTES;
+    const names = await readdir(dir).catch(() => [] as string[]);
+    const files: Array<{ filePath: string; size: number; mtimeMs: number }> = [];
+    for (const name of names) {
+      const filePath = path.join(dir, name);
+      const info = await stat(filePath).catch(() => undefined);
+      if (info?.isFile()) files.push({ filePath, size: info.size, mtimeMs: info.mtimeMs });
+    }
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    let removed = 0;
+    for (const file of files) {
+      const age = now - file.mtimeMs;
+      const expired = age > ttlMs;
+      const overLimit = total > maxTotalBytes && age > INBOUND_MEDIA_MIN_AGE_MS;
+      if (!expired && !overLimit) break;
+      await rm(file.filePath, { force: true });
+      total -= file.size;
+      removed += 1;
+    }
+    return removed;
+  } finally {
+    pruningAccounts.delete(params.accountId);
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * file: src/feishu/mentions.ts
+ * desc: @ 提及处理：获取机器人自身身份，按 open_id 判断是否 @ 了机器人，替换消息中的 @ 占位符
+ */
+
+import type { FeishuClient } from "./client.js";
+
+/**
+ * 消息 mentions 中的一项，key 为消息内容中的占位符（如 @_user_1）；
+ * 事件中的 id 为包含各类 ID 的对象，消息列表接口中的 id 为 open_id 字符串
+ */
+export type FeishuMention = {
+  key?: string;
+  name?: string;
+  id?: { open_id?: string; user_id?: string; union_id?: string } | string;
+};
+
+export type FeishuBotIdentity = {
+  openId: string;
+  name?: string;
+};
+
+/** @所有人 在消息内容中的占位符 */
+const MENTION_ALL_KEY = "@_all";
+
+/**
+ * 入站消息中 @所有人 的文本形式；不使用 @all / @所有人，避免 agent 原样引用时被转换为真正的 @所有人
+ */
+export const FEISHU_MENTION_ALL_TEXT = "@everyone";
+
+/**
+ * 获取机器人自身信息（/bot/v3/info），该接口的 bot 字段不在 data 中
+ */
+export async function fetchFeishuBotIdentity(client: FeishuClient): Promise<FeishuBotIdentity> {
+  type BotInfo = { open_id?: string; app_name?: string };
+  const response = (await client.request<{ bot?: BotInfo }>({
+    method: "GET",
+    path: "/bot/v3/info",
+  })) as { bot?: BotInfo; data?: { bot?: BotInfo } };
+  const bot = response.bot ?? response.data?.bot;
+  if (!bot?.open_id) {
+    throw new Error("Feishu bot info missing open_id");
+  }
+  return { openId: bot.open_id, name: bot.app_name || undefined };
+}
+
+export const resolveMentionOpenId = (mention: FeishuMention) =>
+  typeof mention.id === "string" ? mention.id : mention.id?.open_id;
+
+export const isFeishuMentionAll = (mention: FeishuMention) =>
+  mention.key === MENTION_ALL_KEY ||
+  mention.key === "all" ||
+  mention.name === "all" ||
+  mention.name === "所有人";
+
+/**
+ * 判断消息是否 @ 了机器人：已知机器人 open_id 时精确匹配，
+ * 否则退回按名称匹配（名称需完全一致，忽略大小写）；两者都未知时任何 @ 都视为 @ 机器人
+ */
+export function isFeishuBotMentioned(params: {
+  mentions: FeishuMention[];
+  botOpenId?: string;
+  botName?: string;
+}): boolean {
+  if (params.botOpenId) {
+    return params.mentions.some((mention) => resolveMentionOpenId(mention) === params.botOpenId);
+  }
+  const botName = params.botName?.trim().toLowerCase();
+  if (!botName) return params.mentions.length > 0;
+  return params.mentions.some((mention) => mention.name?.trim().toLowerCase() === botName);
+}
+
+/**
+ * 将 @ 占位符映射为名称：@ 机器人的占位符映射为空字符串（从正文中移除），
+ * @所有人 映射为 all
+ */
+export function buildFeishuMentionNames(
+  mentions: FeishuMention[],
+  options: { botOpenId?: string } = {},
+): Record<string, string> {
+  const names: Record<string, string> = {};
+  for (const mention of mentions) {
+    if (!mention.key) continue;
+    if (options.botOpenId && resolveMentionOpenId(mention) === options.botOpenId) {
+      names[mention.key] = "";
+    } else if (mention.name) {
+      names[mention.key] = mention.name;
+    }
+  }
+  return names;
+}
+
+/**
+ * 替换文本消息中的 @ 占位符：有名称的替换为 @名称，@ 机器人的移除，@所有人 替换为 @everyone
+ */
+export function replaceFeishuMentionKeys(text: string, names: Record<string, string>): string {
+  return text
+    .replace(/(@_(?:user_\d+|all))\b( ?)/g, (match, key: string, space: string) => {
+      if (key === MENTION_ALL_KEY) return `${FEISHU_MENTION_ALL_TEXT}${space}`;
+      const name = names[key];
+      if (name === undefined) return match;
+      return name ? `@${name}${space}` : "";
+    })
+    .trim();
+}
+
+export type FeishuChatMember = {
+  /** open_id */
+  id: string;
+  name: string;
+};
+
+/** 发送消息时的 @ 提及选项 */
+export type FeishuOutboundMentions = {
+  /** 是否允许 @所有人（默认不允许）：将 @all 转换为 @所有人并保留已有的 @所有人 标签 */
+  allowMentionAll?: boolean;
+  /** 获取群成员，用于按名称解析 @名称；仅在回复中出现 @名称 时调用 */
+  resolveMembers?: () => Promise<FeishuChatMember[]>;
+};
+
+const MEMBER_PAGE_SIZE = 100;
+
+/** 回复中已有的 @所有人 标签：文本和富文本为 user_id="all"，卡片为 id=all */
+const AT_ALL_TAG_PATTERN =
+  /<at\s+(?:user_id|id)\s*=\s*["']?all["']?[^>]*?\/?>(?:[^<]*<\/at>)?/gi;
+
+/** 代码块和行内代码中的内容不做 @ 转换 */
+const CODE_SEGMENT_PATTERN = /(```[\s\S]*?```|`[^`\n]*`)/;
+const MENTION_USER_PATTERN = /(?<![\w@])@user:([\w-]+)/g;
+const MENTION_ALL_PATTERN = /(?<![\w@])@(?:all|所有人)(?![\w])/g;
+/** 前面不是字母数字的 @，排除邮箱地址 */
+const MENTION_NAME_PATTERN = /(?<![\w@.])@(?!user:)/g;
+const ASCII_WORD_PATTERN = /[A-Za-z0-9_]/;
+
+/**
+ * 获取群成员列表（open_id 与名称）
+ */
+export async function listFeishuChatMembers(
+  client: FeishuClient,
+  chatId: string,
+): Promise<FeishuChatMember[]> {
+  const members: FeishuChatMember[] = [];
+  const pages = client.paginate<{ member_id?: string; name?: string }>({
+    path: `/im/v1/chats/${chatId}/members`,
+    query: { member_id_type: "open_id" },
+    pageSize: MEMBER_PAGE_SIZE,
+  });
+  for await (const page of pages) {
+    for (const item of page.items) {
+      if (item.member_id && item.name) members.push({ id: item.member_id, name: item.name });
+    }
+  }
+  return members;
+}
+
+/** 文本消息的 at 标签，post 和卡片格式在构建消息时再转换 */
+export const formatFeishuAtTag = (id: string, name = "") => `<at user_id="${id}">${name}</at>`;
+
+/**
+ * 在 @ 位置匹配最长的成员名称；英文名称后紧跟字母数字时不算匹配（避免 @Al 匹配 @Alice）
+ */
+const matchMemberName = (text: string, start: number, members: FeishuChatMember[]) => {
+  const rest = text.slice(start).toLowerCase();
+  return members.find((member) => {
+    const name = member.name.toLowerCase();
+    if (!rest.startsWith(name)) return false;
+    const next = rest.charAt(name.length);
+    return !(next && ASCII_WORD_PATTERN.test(next) && ASCII_WORD_PATTERN.test(name.slice(-1)));
+  });
+};
+
+const replaceMentionsInSegment = (
+  segment: string,
+  members: FeishuChatMember[],
+  allowMentionAll: boolean,
+) => {
+  let result = segment.replace(MENTION_USER_PATTERN, (_match, id: string) =>
+    formatFeishuAtTag(id, members.find((member) => member.id === id)?.name),
+  );
+  if (allowMentionAll) {
+    result = result.replace(MENTION_ALL_PATTERN, () => formatFeishuAtTag("all", "所有人"));
+  }
+  if (members.length === 0) return result;
+
+  let output = "";
+  let cursor = 0;
+  for (const match of result.matchAll(MENTION_NAME_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start < cursor) continue;
+    const member = matchMemberName(result, start + 1, members);
+    if (!member) continue;
+    output += result.slice(cursor, start) + formatFeishuAtTag(member.id, member.name);
+    cursor = start + 1 + member.name.length;
+  }
+  return output + result.slice(cursor);
+};
+
+/**
+ * 将回复中的 @ 提及转换为飞书 at 标签，代码中的内容保持不变
+ * - @user:<id> 转换为对该用户的 @
+ * - @all / @所有人 在 allowMentionAll 时转换为 @所有人，否则保留原文
+ * - @名称 按群成员名称匹配（取最长匹配），未匹配的保留原文
+ * - 不允许 @所有人 时，回复中已有的 @所有人 标签（含代码中的）替换为纯文本
+ */
+export async function applyFeishuOutboundMentions(
+  text: string,
+  options: FeishuOutboundMentions = {},
+): Promise<string> {
+  const allowMentionAll = options.allowMentionAll ?? false;
+  const source = allowMentionAll ? text : text.replace(AT_ALL_TAG_PATTERN, FEISHU_MENTION_ALL_TEXT);
+  const segments = source.split(CODE_SEGMENT_PATTERN);
+  const prose = segments.filter((_, index) => index % 2 === 0);
+  if (!prose.some((segment) => segment.includes("@"))) return source;
+
+  // 仅在存在 @名称 时获取群成员；获取失败时 @名称 保留原文
+  const hasNameMention = prose.some((segment) =>
+    Array.from(segment.matchAll(MENTION_NAME_PATTERN)).some(
+      (match) => !/^@(?:all|所有人)(?!\w)/.test(segment.slice(match.index)),
+    ),
+  );
+  let members: FeishuChatMember[] = [];
+  if (hasNameMention && options.resolveMembers) {
+    try {
+      members = [...(await options.resolveMembers())].sort(
+        (a, b) => b.name.length - a.name.length,
+      );
+    } catch {
+      members = [];
+    }
+  }
+  return segments
+    .map((segment, index) =>
+      index % 2 === 1
+        ? segment
+        : replaceMentionsInSegment(segment, members, allowMentionAll),
+    )
+    .join("");
+}
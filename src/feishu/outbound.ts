@@ -1,4 +1,16 @@
+import { randomUUID } from "node:crypto";
 import { FeishuClient } from "./client.js";
+import type { FeishuReplyFormat } from "./config.js";
+import {
+  summarizeFeishuMessage,
+  type FeishuApiMessage,
+  type FeishuMessageSummary,
+} from "./content.js";
+import type { FeishuUserDirectory } from "./directory.js";
+import { FeishuApiError } from "./errors.js";
+import { applyFeishuOutboundMentions, type FeishuOutboundMentions } from "./mentions.js";
+import { uploadFeishuMedia, type FeishuUploadedMedia } from "./media.js";
+import { markdownToFeishuPost } from "./post.js";
 
 export type FeishuTarget = {
   raw: string;
@@ -9,6 +21,8 @@ export type FeishuTarget = {
 export type FeishuSendResult = {
   messageId?: string;
   chatId?: string;
+  /** 消息所在话题的 thread_id */
+  threadId?: string;
 };
 
 export type FeishuReplyPayload = {
@@ -16,10 +30,7 @@ export type FeishuReplyPayload = {
   mediaUrl?: string;
 };
 
-type MediaKey =
-  | { kind: "image"; key: string }
-  | { kind: "file"; key: string }
-  | { kind: "audio"; key: string };
+type MediaKey = FeishuUploadedMedia;
 
 const parseMediaKey = (mediaUrl?: string): MediaKey | null => {
   if (!mediaUrl) return null;
@@ -38,6 +49,46 @@ const parseMediaKey = (mediaUrl?: string): MediaKey | null => {
 
 const createContent = (text: string) => JSON.stringify({ text });
 
+/** 图片使用 image_key，文件、音频和视频均使用 file_key */
+const createMediaContent = (mediaKey: MediaKey) =>
+  JSON.stringify(
+    mediaKey.kind === "image" ? { image_key: mediaKey.key } : { file_key: mediaKey.key },
+  );
+
+/** 卡片 markdown 组件中的 @ 使用 <at id=...></at> 语法 */
+const toCardMentions = (text: string) =>
+  text.replace(/<at\s+user_id=["']?([^"'\s>]+)["']?[^>]*>[^<]*<\/at>/g, "<at id=$1></at>");
+
+/**
+ * 构建消息卡片（JSON 2.0），使用 markdown 组件渲染标题、列表、表格和代码块
+ */
+export function buildFeishuCard(text: string) {
+  return {
+    schema: "2.0",
+    config: { update_multi: true },
+    body: {
+      elements: [{ tag: "markdown", content: toCardMentions(text) }],
+    },
+  };
+}
+
+export function buildFeishuMessageBody(
+  text: string,
+  format: FeishuReplyFormat = "text",
+  options: { imageKeys?: string[] } = {},
+): { msg_type: string; content: string } {
+  if (format === "post") {
+    return {
+      msg_type: "post",
+      content: JSON.stringify(markdownToFeishuPost(text, { imageKeys: options.imageKeys })),
+    };
+  }
+  if (format === "card") {
+    return { msg_type: "interactive", content: JSON.stringify(buildFeishuCard(text)) };
+  }
+  return { msg_type: "text", content: createContent(text) };
+}
+
 /**
  * 根据 ID 前缀自动识别类型
  * - ou_ 开头 → open_id
@@ -71,24 +122,35 @@ export function normalizeFeishuTarget(raw: string): FeishuTarget {
   return { raw, receiveId: trimmed, receiveIdType: inferIdType(trimmed, "chat_id") };
 }
 
-export async function sendFeishuText(params: {
+/**
+ * 发送已构建好的消息体，有 replyToId 时以回复形式发送，
+ * replyInThread 为 true 时回复到话题内（原消息不在话题中时会创建新话题）。
+ * 请求携带 uuid，飞书按 uuid 去重，因此失败重试不会重复发送
+ */
+async function sendFeishuMessageBody(params: {
   client: FeishuClient;
   to: string;
-  text: string;
+  body: { msg_type: string; content: string };
   replyToId?: string;
+  replyInThread?: boolean;
 }): Promise<FeishuSendResult> {
-  const target = normalizeFeishuTarget(params.to);
   if (params.replyToId) {
-    const response = await params.client.request<{ message_id?: string }>({
+    const response = await params.client.request<{ message_id?: string; thread_id?: string }>({
       method: "POST",
       path: `/im/v1/messages/${params.replyToId}/reply`,
       body: {
-        msg_type: "text",
-        content: createContent(params.text),
+        ...params.body,
+        ...(params.replyInThread ? { reply_in_thread: true } : {}),
+        uuid: randomUUID(),
       },
+      idempotent: true,
     });
-    return { messageId: response.data?.message_id };
+    return {
+      messageId: response.data?.message_id,
+      ...(response.data?.thread_id ? { threadId: response.data.thread_id } : {}),
+    };
   }
+  const target = normalizeFeishuTarget(params.to);
   const response = await params.client.request<{ message_id?: string; chat_id?: string }>({
     method: "POST",
     path: "/im/v1/messages",
@@ -97,9 +159,10 @@ export async function sendFeishuText(params: {
     },
     body: {
       receive_id: target.receiveId,
-      msg_type: "text",
-      content: createContent(params.text),
+      ...params.body,
+      uuid: randomUUID(),
     },
+    idempotent: true,
   });
   return {
     messageId: response.data?.message_id,
@@ -107,70 +170,161 @@ export async function sendFeishuText(params: {
   };
 }
 
+export async function sendFeishuText(params: {
+  client: FeishuClient;
+  to: string;
+  text: string;
+  replyToId?: string;
+  replyInThread?: boolean;
+  format?: FeishuReplyFormat;
+  mentions?: FeishuOutboundMentions;
+}): Promise<FeishuSendResult> {
+  const text = await applyFeishuOutboundMentions(params.text, params.mentions);
+  return await sendFeishuMessageBody({
+    client: params.client,
+    to: params.to,
+    body: buildFeishuMessageBody(text, params.format),
+    replyToId: params.replyToId,
+    replyInThread: params.replyInThread,
+  });
+}
+
+/**
+ * 发送媒体消息
+ * - feishu:image_key: / feishu:file_key: / feishu:audio_key: 前缀直接发送
+ * - http(s)、data: 和本地路径先上传到飞书再发送，大小受 maxBytes 限制
+ * - 远程地址上传失败时退化为发送链接文本
+ */
 export async function sendFeishuMedia(params: {
   client: FeishuClient;
   to: string;
   text?: string;
   mediaUrl: string;
   replyToId?: string;
+  replyInThread?: boolean;
+  format?: FeishuReplyFormat;
+  maxBytes?: number;
+  /** 允许发送的本地文件目录 */
+  localRoots?: string[];
+  mentions?: FeishuOutboundMentions;
 }): Promise<FeishuSendResult> {
-  const target = normalizeFeishuTarget(params.to);
-  const mediaKey = parseMediaKey(params.mediaUrl);
+  let mediaKey: MediaKey | null = parseMediaKey(params.mediaUrl);
   if (!mediaKey) {
-    const fallback = params.text
-      ? `${params.text}\n${params.mediaUrl}`
-      : `Media: ${params.mediaUrl}`;
-    return await sendFeishuText({
+    try {
+      mediaKey = await uploadFeishuMedia({
+        client: params.client,
+        mediaUrl: params.mediaUrl,
+        maxBytes: params.maxBytes,
+        localRoots: params.localRoots,
+      });
+    } catch (err) {
+      if (!/^https?:\/\//i.test(params.mediaUrl.trim())) throw err;
+      const fallback = params.text
+        ? `${params.text}\n${params.mediaUrl}`
+        : `Media: ${params.mediaUrl}`;
+      return await sendFeishuText({
+        client: params.client,
+        to: params.to,
+        text: fallback,
+        replyToId: params.replyToId,
+        replyInThread: params.replyInThread,
+        format: params.format,
+        mentions: params.mentions,
+      });
+    }
+  }
+
+  // post 格式下图片与文字合并为一条富文本消息
+  if (params.format === "post" && mediaKey.kind === "image") {
+    const text = await applyFeishuOutboundMentions(params.text ?? "", params.mentions);
+    return await sendFeishuMessageBody({
       client: params.client,
       to: params.to,
-      text: fallback,
+      body: buildFeishuMessageBody(text, "post", { imageKeys: [mediaKey.key] }),
       replyToId: params.replyToId,
+      replyInThread: params.replyInThread,
     });
   }
 
-  const body = {
-    msg_type: mediaKey.kind,
-    content: JSON.stringify({ [`${mediaKey.kind}_key`]: mediaKey.key }),
-  };
-
-  if (params.replyToId) {
-    const response = await params.client.request<{ message_id?: string }>({
-      method: "POST",
-      path: `/im/v1/messages/${params.replyToId}/reply`,
-      body,
+  if (params.text?.trim()) {
+    await sendFeishuText({
+      client: params.client,
+      to: params.to,
+      text: params.text,
+      replyToId: params.replyToId,
+      replyInThread: params.replyInThread,
+      format: params.format,
+      mentions: params.mentions,
     });
-    return { messageId: response.data?.message_id };
   }
 
-  const response = await params.client.request<{ message_id?: string; chat_id?: string }>({
-    method: "POST",
-    path: "/im/v1/messages",
-    query: {
-      receive_id_type: target.receiveIdType,
-    },
+  return await sendFeishuMessageBody({
+    client: params.client,
+    to: params.to,
     body: {
-      receive_id: target.receiveId,
-      ...body,
+      msg_type: mediaKey.kind,
+      content: createMediaContent(mediaKey),
     },
+    replyToId: params.replyToId,
+    replyInThread: params.replyInThread,
   });
-  return {
-    messageId: response.data?.message_id,
-    chatId: response.data?.chat_id,
-  };
 }
 
+/** 可编辑的消息类型对应的回复格式 */
+const EDITABLE_MSG_TYPES: Record<string, FeishuReplyFormat> = {
+  text: "text",
+  post: "post",
+  interactive: "card",
+};
+
+/**
+ * 读取消息的实际类型，编辑时需与原消息保持一致
+ */
+const resolveEditFormat = async (
+  client: FeishuClient,
+  messageId: string,
+): Promise<FeishuReplyFormat> => {
+  const response = await client.request<{ items?: FeishuApiMessage[] }>({
+    method: "GET",
+    path: `/im/v1/messages/${messageId}`,
+  });
+  const msgType = response.data?.items?.[0]?.msg_type;
+  const format = msgType ? EDITABLE_MSG_TYPES[msgType] : undefined;
+  if (!format) {
+    throw new Error(
+      `Feishu message ${messageId} cannot be edited (msg_type: ${msgType ?? "unknown"})`,
+    );
+  }
+  return format;
+};
+
+/**
+ * 编辑消息
+ * - 未指定 format 时读取原消息的 msg_type，避免按账号配置猜错类型
+ * - 文本和富文本消息使用 PUT 更新
+ * - 卡片消息使用 PATCH 原地更新（卡片需开启 update_multi）
+ */
 export async function editFeishuMessage(params: {
   client: FeishuClient;
   messageId: string;
   text: string;
+  format?: FeishuReplyFormat;
+  mentions?: FeishuOutboundMentions;
 }) {
+  const format = params.format ?? (await resolveEditFormat(params.client, params.messageId));
+  const text = await applyFeishuOutboundMentions(params.text, params.mentions);
+  const body = buildFeishuMessageBody(text, format);
+  if (format === "card") {
+    return await params.client.request({
+      method: "PATCH",
+      path: `/im/v1/messages/${params.messageId}`,
+      body: { content: body.content },
+    });
+  }
   return await params.client.request({
-    method: "PATCH",
+    method: "PUT",
     path: `/im/v1/messages/${params.messageId}`,
-    body: {
-      msg_type: "text",
-      content: createContent(params.text),
-    },
+    body,
   });
 }
 
@@ -181,23 +335,67 @@ export async function deleteFeishuMessage(params: { client: FeishuClient; messag
   });
 }
 
+const READ_PAGE_SIZE_MAX = 50;
+const DEFAULT_READ_LIMIT = 20;
+
+/**
+ * 时间参数转换为接口需要的秒级时间戳，支持秒、毫秒和可被 Date 解析的字符串
+ */
+const toUnixSeconds = (value?: string | number): string | undefined => {
+  if (value === undefined || value === "") return undefined;
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (Number.isFinite(numeric)) {
+    return String(Math.floor(numeric > 1e12 ? numeric / 1000 : numeric));
+  }
+  const parsed = Date.parse(String(value));
+  if (Number.isNaN(parsed)) throw new Error(`Invalid time: ${value}`);
+  return String(Math.floor(parsed / 1000));
+};
+
+/**
+ * 读取会话历史消息
+ * - 默认按创建时间倒序（最新的在前），order 为 asc 时正序
+ * - startTime / endTime 限定时间范围
+ * - 跨页读取直到 limit 条，返回 cursor 供下次继续读取
+ */
 export async function readFeishuMessages(params: {
   client: FeishuClient;
   chatId: string;
   limit?: number;
-  before?: string;
-  after?: string;
-}) {
-  return await params.client.request({
-    method: "GET",
+  startTime?: string | number;
+  endTime?: string | number;
+  order?: "asc" | "desc";
+  cursor?: string;
+}): Promise<{
+  ok: true;
+  messages: FeishuMessageSummary[];
+  hasMore: boolean;
+  cursor?: string;
+}> {
+  const limit = Math.max(1, Math.floor(params.limit ?? DEFAULT_READ_LIMIT));
+  const messages: FeishuMessageSummary[] = [];
+  let hasMore = false;
+  let cursor: string | undefined;
+  const pages = params.client.paginate<FeishuApiMessage>({
     path: "/im/v1/messages",
     query: {
       container_id_type: "chat",
       container_id: params.chatId,
-      page_size: params.limit,
-      page_token: params.after ?? params.before,
+      start_time: toUnixSeconds(params.startTime),
+      end_time: toUnixSeconds(params.endTime),
+      sort_type: params.order === "asc" ? "ByCreateTimeAsc" : "ByCreateTimeDesc",
     },
+    // 按剩余条数请求，避免一页中途截断导致 cursor 跳过消息
+    pageSize: () => Math.min(READ_PAGE_SIZE_MAX, limit - messages.length),
+    pageToken: params.cursor,
   });
+  for await (const page of pages) {
+    messages.push(...page.items.map(summarizeFeishuMessage));
+    hasMore = page.hasMore;
+    cursor = page.pageToken;
+    if (messages.length >= limit) break;
+  }
+  return { ok: true, messages, hasMore, ...(cursor ? { cursor } : {}) };
 }
 
 export async function reactFeishuMessage(params: {
@@ -226,6 +424,187 @@ export async function reactFeishuMessage(params: {
   });
 }
 
+type FeishuReactionItem = {
+  reaction_id?: string;
+  operator?: { operator_id?: string; operator_type?: string };
+  action_time?: string;
+  reaction_type?: { emoji_type?: string };
+};
+
+type FeishuPinItem = {
+  message_id?: string;
+  chat_id?: string;
+  operator_id?: string;
+  operator_id_type?: string;
+  create_time?: string;
+};
+
+export type FeishuUserRef = {
+  id: string;
+  name?: string;
+  /** user 或 app */
+  type?: string;
+};
+
+const LIST_PAGE_SIZE_MAX = 50;
+
+/** 通过用户目录解析 open_id 对应的名称，缺少通讯录权限或查询失败的用户不带名称 */
+const resolveUserNames = async (
+  client: FeishuClient,
+  directory: FeishuUserDirectory,
+  openIds: string[],
+): Promise<Map<string, string>> => {
+  const names = new Map<string, string>();
+  const profiles = await directory.resolveMany(
+    client,
+    openIds.filter((id) => id.startsWith("ou_")),
+  );
+  for (const [id, profile] of profiles) {
+    if (profile.name) names.set(id, profile.name);
+  }
+  return names;
+};
+
+/**
+ * 列出消息的表情回复，按表情类型聚合并解析回复人名称
+ */
+export async function listFeishuReactions(params: {
+  client: FeishuClient;
+  /** 用于解析回复人名称 */
+  directory: FeishuUserDirectory;
+  messageId: string;
+  /** 仅统计指定表情，如 THUMBSUP */
+  emoji?: string;
+  limit?: number;
+}) {
+  const limit = Math.max(1, Math.floor(params.limit ?? 500));
+  const items: FeishuReactionItem[] = [];
+  const pages = params.client.paginate<FeishuReactionItem>({
+    path: `/im/v1/messages/${params.messageId}/reactions`,
+    query: {
+      reaction_type: params.emoji || undefined,
+      user_id_type: "open_id",
+    },
+    pageSize: () => Math.min(LIST_PAGE_SIZE_MAX, limit - items.length),
+  });
+  for await (const page of pages) {
+    items.push(...page.items);
+    if (items.length >= limit) break;
+  }
+
+  const names = await resolveUserNames(
+    params.client,
+    params.directory,
+    items
+      .filter((item) => item.operator?.operator_type !== "app")
+      .map((item) => item.operator?.operator_id ?? ""),
+  );
+  const groups = new Map<string, FeishuUserRef[]>();
+  for (const item of items) {
+    const emoji = item.reaction_type?.emoji_type ?? "unknown";
+    const operatorId = item.operator?.operator_id ?? "";
+    const users = groups.get(emoji) ?? [];
+    users.push({
+      id: operatorId,
+      ...(names.has(operatorId) ? { name: names.get(operatorId) } : {}),
+      ...(item.operator?.operator_type ? { type: item.operator.operator_type } : {}),
+    });
+    groups.set(emoji, users);
+  }
+  const reactions = Array.from(groups, ([emoji, users]) => ({ emoji, count: users.length, users }))
+    .sort((a, b) => b.count - a.count);
+  return { ok: true as const, messageId: params.messageId, total: items.length, reactions };
+}
+
+/** 读取置顶消息内容的并发请求数 */
+const PIN_MESSAGE_CONCURRENCY = 5;
+/** 消息已撤回或删除的错误码，此时置顶记录不附带消息内容 */
+const MESSAGE_GONE_CODES = new Set([230011, 230110]);
+
+/**
+ * 按有限并发读取置顶消息的内容；消息已撤回或删除时跳过，其他错误（权限、限流等）照常抛出
+ */
+const fetchPinnedMessages = async (
+  client: FeishuClient,
+  messageIds: string[],
+): Promise<Map<string, FeishuMessageSummary>> => {
+  const messages = new Map<string, FeishuMessageSummary>();
+  const queue = [...messageIds];
+  let failed = false;
+  const worker = async () => {
+    for (let messageId = queue.shift(); messageId && !failed; messageId = queue.shift()) {
+      try {
+        const response = await client.request<{ items?: FeishuApiMessage[] }>({
+          method: "GET",
+          path: `/im/v1/messages/${messageId}`,
+        });
+        const message = response.data?.items?.[0];
+        if (message) messages.set(messageId, summarizeFeishuMessage(message));
+      } catch (err) {
+        if (err instanceof FeishuApiError && err.code && MESSAGE_GONE_CODES.has(err.code)) continue;
+        failed = true;
+        throw err;
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(PIN_MESSAGE_CONCURRENCY, messageIds.length) }, worker),
+  );
+  return messages;
+};
+
+/**
+ * 列出会话中的置顶消息，附带消息内容和置顶人、发送人名称
+ */
+export async function listFeishuPins(params: {
+  client: FeishuClient;
+  /** 用于解析置顶人和发送人名称 */
+  directory: FeishuUserDirectory;
+  chatId: string;
+  limit?: number;
+}) {
+  const limit = Math.max(1, Math.floor(params.limit ?? 50));
+  const pins: FeishuPinItem[] = [];
+  const pages = params.client.paginate<FeishuPinItem>({
+    path: "/im/v1/pins",
+    query: { chat_id: params.chatId },
+    pageSize: () => Math.min(LIST_PAGE_SIZE_MAX, limit - pins.length),
+  });
+  for await (const page of pages) {
+    pins.push(...page.items);
+    if (pins.length >= limit) break;
+  }
+
+  const messages = await fetchPinnedMessages(
+    params.client,
+    Array.from(new Set(pins.map((pin) => pin.message_id ?? "").filter(Boolean))),
+  );
+  const names = await resolveUserNames(params.client, params.directory, [
+    ...pins.map((pin) => pin.operator_id ?? ""),
+    ...Array.from(messages.values(), (message) => message.sender.id ?? ""),
+  ]);
+  const withName = (id?: string) =>
+    id ? { id, ...(names.has(id) ? { name: names.get(id) } : {}) } : undefined;
+
+  return {
+    ok: true as const,
+    chatId: params.chatId,
+    pins: pins.map((pin) => {
+      const message = pin.message_id ? messages.get(pin.message_id) : undefined;
+      const pinnedAt = Number(pin.create_time);
+      return {
+        messageId: pin.message_id ?? "",
+        pinnedAt: pinnedAt > 0 ? new Date(pinnedAt).toISOString() : undefined,
+        pinnedBy: withName(pin.operator_id),
+        message: message && {
+          ...message,
+          sender: { ...message.sender, ...withName(message.sender.id) },
+        },
+      };
+    }),
+  };
+}
+
 export async function pinFeishuMessage(params: {
   client: FeishuClient;
   messageId: string;
@@ -248,15 +627,18 @@ export async function pinFeishuMessage(params: {
   });
 }
 
+/**
+ * 查询成员信息，优先使用用户目录缓存；userId 可为 open_id（ou_）、union_id（on_）或 user_id
+ */
 export async function fetchFeishuMember(params: {
   client: FeishuClient;
   userId: string;
+  directory: FeishuUserDirectory;
 }) {
-  return await params.client.request({
-    method: "GET",
-    path: `/contact/v3/users/${params.userId}`,
-    query: {
-      user_id_type: "user_id",
-    },
-  });
+  const userId = params.userId.trim();
+  const member = await params.directory.lookup(params.client, userId);
+  if (!member) {
+    return { ok: false as const, error: `Feishu member not found or not visible: ${userId}` };
+  }
+  return { ok: true as const, member };
 }
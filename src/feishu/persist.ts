@@ -0,0 +1,73 @@
+/**
+ * file: src/feishu/persist.ts
+ * desc: JSON 文件持久化：去重记录、用户目录和群聊记录共用的读取、延迟写入和立即写入
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { FeishuLogger } from "./state.js";
+
+const PERSIST_DELAY_MS = 1000;
+
+export type FeishuJsonFileParams = {
+  /** 文件路径，未设置时不读写文件 */
+  filePath?: string;
+  /** 日志中使用的名称，如 dedupe、chat store */
+  label: string;
+  /** 写入时保存的内容 */
+  serialize: () => unknown;
+  log?: FeishuLogger;
+};
+
+export class FeishuJsonFile {
+  private readonly filePath?: string;
+  private readonly label: string;
+  private readonly serialize: () => unknown;
+  private readonly log?: FeishuLogger;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(params: FeishuJsonFileParams) {
+    this.filePath = params.filePath;
+    this.label = params.label;
+    this.serialize = params.serialize;
+    this.log = params.log;
+  }
+
+  /**
+   * 读取文件内容，文件不存在或解析失败时返回 undefined
+   */
+  read(): unknown {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return undefined;
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, "utf8")) as unknown;
+    } catch (err) {
+      this.log?.warn?.(`feishu ${this.label} load failed: ${String(err)}`);
+      return undefined;
+    }
+  }
+
+  /** 延迟写入，合并短时间内的多次变更 */
+  schedule() {
+    if (!this.filePath || this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.flush();
+    }, PERSIST_DELAY_MS);
+    this.persistTimer.unref?.();
+  }
+
+  /** 立即写入文件 */
+  async flush() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.filePath) return;
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(this.filePath, JSON.stringify(this.serialize()), "utf8");
+    } catch (err) {
+      this.log?.warn?.(`feishu ${this.label} persist failed: ${String(err)}`);
+    }
+  }
+}
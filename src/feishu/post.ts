@@ -0,0 +1,342 @@
+/**
+ * file: src/feishu/post.ts
+ * desc: Markdown 与飞书富文本（post）消息之间的转换
+ */
+
+import { FEISHU_MENTION_ALL_TEXT } from "./mentions.js";
+
+export type FeishuPostStyle = "bold" | "italic" | "underline" | "lineThrough";
+
+export type FeishuPostElement =
+  | { tag: "text"; text: string; style?: FeishuPostStyle[] }
+  | { tag: "a"; text: string; href: string; style?: FeishuPostStyle[] }
+  | { tag: "at"; user_id: string; user_name?: string }
+  | { tag: "img"; image_key: string }
+  | { tag: "code_block"; language?: string; text: string }
+  | { tag: "hr" };
+
+export type FeishuPostContent = {
+  title?: string;
+  content: FeishuPostElement[][];
+};
+
+export type FeishuPost = Record<string, FeishuPostContent>;
+
+const DEFAULT_LOCALE = "zh_cn";
+
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w+#.-]*)\s*$/;
+const HR_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+const IMAGE_LINE_PATTERN = /^\s*!\[([^\]]*)\]\(([^)\s]+)\)\s*$/;
+
+/**
+ * 行内语法，按优先级依次为：
+ * <at> 标签、图片/链接、行内代码、粗体、删除线、斜体、裸链接
+ */
+const INLINE_PATTERN = new RegExp(
+  [
+    /<at\s+(?:user_id|id)=["']?([^"'\s>]+)["']?[^>]*>([^<]*)<\/at>/.source,
+    /!?\[([^\]]*)\]\(([^)\s]+)\)/.source,
+    /`([^`\n]+)`/.source,
+    /\*\*(.+?)\*\*/.source,
+    /__(.+?)__/.source,
+    /~~(.+?)~~/.source,
+    /\*(?![\s*])(.+?)\*/.source,
+    /(?<![\w])_(?![\s_])(.+?)_(?![\w])/.source,
+    /(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/.source,
+  ].join("|"),
+  "g",
+);
+
+/** 识别图片地址中的 image_key（feishu:image_key:xxx 或 img_ 开头的原始 key） */
+const parseImageKey = (url: string): string | null => {
+  if (url.startsWith("feishu:image_key:")) return url.slice("feishu:image_key:".length) || null;
+  if (/^img_[\w-]+$/.test(url)) return url;
+  return null;
+};
+
+const withStyle = (styles: FeishuPostStyle[]) => (styles.length > 0 ? { style: [...styles] } : {});
+
+const addStyle = (styles: FeishuPostStyle[], next: FeishuPostStyle) =>
+  styles.includes(next) ? styles : [...styles, next];
+
+const sameStyle = (a?: FeishuPostStyle[], b?: FeishuPostStyle[]) =>
+  (a ?? []).join(",") === (b ?? []).join(",");
+
+/** 合并相邻且样式一致的文本元素 */
+const mergeTextElements = (elements: FeishuPostElement[]): FeishuPostElement[] => {
+  const merged: FeishuPostElement[] = [];
+  for (const element of elements) {
+    const last = merged[merged.length - 1];
+    if (
+      element.tag === "text" &&
+      last?.tag === "text" &&
+      sameStyle(last.style, element.style)
+    ) {
+      merged[merged.length - 1] = { ...last, text: last.text + element.text };
+      continue;
+    }
+    if (element.tag === "text" && !element.text) continue;
+    merged.push(element);
+  }
+  return merged;
+};
+
+const parseInline = (text: string, styles: FeishuPostStyle[] = []): FeishuPostElement[] => {
+  const elements: FeishuPostElement[] = [];
+  const pattern = new RegExp(INLINE_PATTERN.source, "g");
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > cursor) {
+      elements.push({ tag: "text", text: text.slice(cursor, match.index), ...withStyle(styles) });
+    }
+    const [
+      raw,
+      atId,
+      atName,
+      linkText,
+      linkHref,
+      code,
+      bold,
+      boldAlt,
+      strike,
+      italic,
+      italicAlt,
+      bareUrl,
+    ] = match;
+    if (atId !== undefined) {
+      elements.push({
+        tag: "at",
+        user_id: atId,
+        ...(atName ? { user_name: atName } : {}),
+      });
+    } else if (linkHref !== undefined) {
+      elements.push({
+        tag: "a",
+        text: linkText || linkHref,
+        href: linkHref,
+        ...withStyle(styles),
+      });
+    } else if (code !== undefined) {
+      elements.push({ tag: "text", text: code, ...withStyle(styles) });
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      elements.push(...parseInline(bold ?? boldAlt, addStyle(styles, "bold")));
+    } else if (strike !== undefined) {
+      elements.push(...parseInline(strike, addStyle(styles, "lineThrough")));
+    } else if (italic !== undefined || italicAlt !== undefined) {
+      elements.push(...parseInline(italic ?? italicAlt, addStyle(styles, "italic")));
+    } else if (bareUrl !== undefined) {
+      elements.push({ tag: "a", text: bareUrl, href: bareUrl, ...withStyle(styles) });
+    } else {
+      elements.push({ tag: "text", text: raw, ...withStyle(styles) });
+    }
+    cursor = match.index + raw.length;
+  }
+  if (cursor < text.length) {
+    elements.push({ tag: "text", text: text.slice(cursor), ...withStyle(styles) });
+  }
+  return mergeTextElements(elements);
+};
+
+/**
+ * 将 Markdown 转换为飞书 post 富文本
+ * - 粗体、斜体、删除线、链接、<at> 标签转为对应的行内元素
+ * - 围栏代码块转为 code_block，分隔线转为 hr
+ * - 标题转为粗体段落，列表与引用保留原有前缀
+ * - 独占一行且指向 image_key 的图片转为 img 元素
+ */
+export function markdownToFeishuPost(
+  markdown: string,
+  options: { title?: string; locale?: string; imageKeys?: string[] } = {},
+): FeishuPost {
+  const paragraphs: FeishuPostElement[][] = [];
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+
+  let fence: { marker: string; language: string; lines: string[] } | null = null;
+  for (const line of lines) {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1] === fence.marker && !fenceMatch[2]) {
+        paragraphs.push([
+          {
+            tag: "code_block",
+            ...(fence.language ? { language: fence.language } : {}),
+            text: fence.lines.join("\n"),
+          },
+        ]);
+        fence = null;
+      } else {
+        fence.lines.push(line);
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = { marker: fenceMatch[1], language: fenceMatch[2] ?? "", lines: [] };
+      continue;
+    }
+    if (HR_PATTERN.test(line)) {
+      paragraphs.push([{ tag: "hr" }]);
+      continue;
+    }
+    const imageMatch = line.match(IMAGE_LINE_PATTERN);
+    const imageKey = imageMatch ? parseImageKey(imageMatch[2]) : null;
+    if (imageKey) {
+      paragraphs.push([{ tag: "img", image_key: imageKey }]);
+      continue;
+    }
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch) {
+      paragraphs.push(parseInline(headingMatch[1], ["bold"]));
+      continue;
+    }
+    paragraphs.push(parseInline(line));
+  }
+  // 未闭合的代码块按代码块处理，避免丢失内容
+  if (fence) {
+    paragraphs.push([
+      {
+        tag: "code_block",
+        ...(fence.language ? { language: fence.language } : {}),
+        text: fence.lines.join("\n"),
+      },
+    ]);
+  }
+
+  for (const imageKey of options.imageKeys ?? []) {
+    paragraphs.push([{ tag: "img", image_key: imageKey }]);
+  }
+
+  // 去掉首尾空段落
+  while (paragraphs.length > 0 && paragraphs[0].length === 0) paragraphs.shift();
+  while (paragraphs.length > 0 && paragraphs[paragraphs.length - 1].length === 0) paragraphs.pop();
+
+  return {
+    [options.locale ?? DEFAULT_LOCALE]: {
+      ...(options.title ? { title: options.title } : {}),
+      content: paragraphs,
+    },
+  };
+}
+
+type InboundPostElement = {
+  tag?: string;
+  text?: string;
+  href?: string;
+  style?: string[];
+  user_id?: string;
+  user_name?: string;
+  image_key?: string;
+  file_key?: string;
+  language?: string;
+  emoji_type?: string;
+};
+
+type InboundPostContent = {
+  title?: string;
+  content?: InboundPostElement[][];
+};
+
+export type ParsedFeishuPost = {
+  markdown: string;
+  imageKeys: string[];
+  mediaKeys: string[];
+};
+
+const POST_LOCALES = ["zh_cn", "en_us", "ja_jp"];
+
+/** 入站 post 可能是 {title, content}，也可能按语言包裹，优先取中文、英文 */
+const pickPostContent = (raw: unknown): InboundPostContent | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const record = raw as Record<string, unknown>;
+  if (Array.isArray(record.content)) return record as InboundPostContent;
+  const locale =
+    POST_LOCALES.find((key) => record[key] && typeof record[key] === "object") ??
+    Object.keys(record).find((key) => record[key] && typeof record[key] === "object");
+  return locale ? pickPostContent(record[locale]) : null;
+};
+
+const applyMarkdownStyle = (text: string, style?: string[]) => {
+  if (!text.trim() || !style?.length) return text;
+  let result = text;
+  if (style.includes("lineThrough")) result = `~~${result}~~`;
+  if (style.includes("italic")) result = `*${result}*`;
+  if (style.includes("bold")) result = `**${result}**`;
+  return result;
+};
+
+/**
+ * 将飞书 post 富文本转换为 Markdown
+ * - at 元素通过 mentions（占位 key → 名称）解析为 @名称，名称为空字符串时省略
+ * - 图片和视频以占位文本保留位置，key 单独返回供下载
+ */
+export function feishuPostToMarkdown(
+  raw: unknown,
+  options: { mentions?: Record<string, string> } = {},
+): ParsedFeishuPost {
+  const post = pickPostContent(raw);
+  const imageKeys: string[] = [];
+  const mediaKeys: string[] = [];
+  if (!post) return { markdown: "", imageKeys, mediaKeys };
+
+  const blocks: string[] = [];
+  if (post.title?.trim()) blocks.push(`# ${post.title.trim()}`);
+
+  for (const paragraph of post.content ?? []) {
+    let line = "";
+    for (const element of paragraph ?? []) {
+      switch (element.tag) {
+        case "text":
+          line += applyMarkdownStyle(element.text ?? "", element.style);
+          break;
+        case "a":
+          line += element.href
+            ? `[${element.text || element.href}](${element.href})`
+            : element.text ?? "";
+          break;
+        case "at": {
+          const id = element.user_id ?? "";
+          // @所有人 输出为不会被回复转换为 @所有人 的文本
+          if (id === "all" || id === "@_all") {
+            line += FEISHU_MENTION_ALL_TEXT;
+            break;
+          }
+          const name = options.mentions?.[id] ?? element.user_name ?? id;
+          // 映射为空字符串的提及（@ 机器人自身）不输出
+          if (name) line += `@${name}`;
+          break;
+        }
+        case "img":
+          if (element.image_key) imageKeys.push(element.image_key);
+          line += "[Feishu image]";
+          break;
+        case "media":
+          if (element.file_key) mediaKeys.push(element.file_key);
+          line += "[Feishu media]";
+          break;
+        case "emotion":
+          line += element.emoji_type ? `[${element.emoji_type}]` : "";
+          break;
+        case "code_block":
+          if (line) {
+            blocks.push(line);
+            line = "";
+          }
+          blocks.push(`\`\`\`${(element.language ?? "").toLowerCase()}\n${element.text ?? ""}\n\`\`\``);
+          break;
+        case "hr":
+          if (line) {
+            blocks.push(line);
+            line = "";
+          }
+          blocks.push("---");
+          break;
+        default:
+          line += element.text ?? "";
+      }
+    }
+    if (line || paragraph?.length === 0) blocks.push(line);
+  }
+
+  return { markdown: blocks.join("\n").trim(), imageKeys, mediaKeys };
+}
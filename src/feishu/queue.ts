@@ -0,0 +1,93 @@
+/**
+ * file: src/feishu/queue.ts
+ * desc: 事件处理队列：回调先确认再在后台处理，限制并发数和排队数量
+ */
+
+import type { FeishuLogger } from "./state.js";
+
+export type FeishuEventTask = () => Promise<unknown>;
+
+export type FeishuEventQueueParams = {
+  /** 同时处理的事件数 */
+  concurrency?: number;
+  /** 等待处理的事件数上限，超出后拒绝入队 */
+  maxPending?: number;
+  /** 任务失败时回调 */
+  onError?: (err: unknown) => void;
+  log?: FeishuLogger;
+};
+
+export const DEFAULT_EVENT_CONCURRENCY = 4;
+export const DEFAULT_EVENT_MAX_PENDING = 100;
+
+export class FeishuEventQueue {
+  private readonly concurrency: number;
+  private readonly maxPending: number;
+  private readonly onError?: (err: unknown) => void;
+  private readonly log?: FeishuLogger;
+  private readonly tasks: FeishuEventTask[] = [];
+  private running = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(params: FeishuEventQueueParams = {}) {
+    this.concurrency = Math.max(1, Math.floor(params.concurrency ?? DEFAULT_EVENT_CONCURRENCY));
+    this.maxPending = Math.max(0, Math.floor(params.maxPending ?? DEFAULT_EVENT_MAX_PENDING));
+    this.onError = params.onError;
+    this.log = params.log;
+  }
+
+  /** 等待处理的事件数 */
+  get pending() {
+    return this.tasks.length;
+  }
+
+  /** 正在处理的事件数 */
+  get active() {
+    return this.running;
+  }
+
+  /**
+   * 加入队列，队列已满时返回 false，由调用方拒绝该事件（飞书会稍后重推）
+   */
+  push(task: FeishuEventTask): boolean {
+    if (this.running >= this.concurrency && this.tasks.length >= this.maxPending) {
+      this.log?.warn?.(
+        `feishu event queue full: active=${this.running} pending=${this.tasks.length}`,
+      );
+      return false;
+    }
+    this.tasks.push(task);
+    this.drain();
+    return true;
+  }
+
+  /** 等待队列中的事件全部处理完成 */
+  onIdle(): Promise<void> {
+    if (this.running === 0 && this.tasks.length === 0) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private drain() {
+    while (this.running < this.concurrency && this.tasks.length > 0) {
+      const task = this.tasks.shift() as FeishuEventTask;
+      this.running += 1;
+      void this.run(task);
+    }
+    if (this.running === 0 && this.tasks.length === 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      for (const resolve of waiters) resolve();
+    }
+  }
+
+  private async run(task: FeishuEventTask) {
+    try {
+      await task();
+    } catch (err) {
+      this.onError?.(err);
+    } finally {
+      this.running -= 1;
+      this.drain();
+    }
+  }
+}
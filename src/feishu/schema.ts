@@ -8,107 +8,109 @@
  *   例如: /plugins/feishu/events/bot1, /plugins/feishu/events/bot2
  */
 
+import type { FeishuAccountConfig, FeishuGroupConfig } from "./config.js";
+
 export const FEISHU_CHANNEL_ID = "feishu";
 export const FEISHU_HTTP_PATH = "/events";
 
 export const feishuMeta = {
   id: FEISHU_CHANNEL_ID,
-  label: "Feishu",
-  selectionLabel: "Feishu (Bot API)",
-  detailLabel: "Feishu Bot",
+  label: "Feishu / Lark",
+  selectionLabel: "Feishu / Lark (Bot API)",
+  detailLabel: "Feishu / Lark Bot",
   docsPath: "/channels/feishu",
   docsLabel: "feishu",
-  blurb: "Feishu bot via WebSocket or event callback.",
+  blurb: "Feishu (China) or Lark (international) bot via WebSocket or event callback.",
   systemImage: "message",
 };
 
-export const feishuConfigSchema = {
-  schema: {
-    type: "object",
-    additionalProperties: false,
-    properties: {
-      enabled: { type: "boolean" },
-      appId: { type: "string" },
-      appSecret: { type: "string" },
-      verificationToken: { type: "string" },
-      encryptKey: { type: "string" },
-      eventMode: { type: "string", enum: ["ws", "http"] },
-      baseUrl: { type: "string" },
-      replyToMode: { type: "string", enum: ["off", "first", "all"] },
-      groupPolicy: { type: "string", enum: ["open", "allowlist"] },
-      requireMention: { type: "boolean" },
-      mediaMaxMb: { type: "number" },
-      dm: {
-        type: "object",
-        additionalProperties: false,
-        properties: {
-          enabled: { type: "boolean" },
-          policy: { type: "string", enum: ["open", "pairing"] },
-          allowFrom: { type: "array", items: { type: "string" } },
-        },
-      },
-      actions: {
-        type: "object",
-        additionalProperties: { type: "boolean" },
-      },
-      channels: {
-        type: "object",
-        additionalProperties: {
-          type: "object",
-          additionalProperties: false,
-          properties: {
-            requireMention: { type: "boolean" },
-            toolPolicy: { type: "string" },
-          },
-        },
-      },
-      accounts: {
-        type: "object",
-        additionalProperties: {
-          type: "object",
-          additionalProperties: false,
-          properties: {
-            enabled: { type: "boolean" },
-            name: { type: "string" },
-            appId: { type: "string" },
-            appSecret: { type: "string" },
-            verificationToken: { type: "string" },
-            encryptKey: { type: "string" },
-            eventMode: { type: "string", enum: ["ws", "http"] },
-            baseUrl: { type: "string" },
-            replyToMode: { type: "string", enum: ["off", "first", "all"] },
-            groupPolicy: { type: "string", enum: ["open", "allowlist"] },
-            requireMention: { type: "boolean" },
-            mediaMaxMb: { type: "number" },
-            dm: {
-              type: "object",
-              additionalProperties: false,
-              properties: {
-                enabled: { type: "boolean" },
-                policy: { type: "string", enum: ["open", "pairing"] },
-                allowFrom: { type: "array", items: { type: "string" } },
-              },
-            },
-            actions: {
-              type: "object",
-              additionalProperties: { type: "boolean" },
-            },
-            channels: {
-              type: "object",
-              additionalProperties: {
-                type: "object",
-                additionalProperties: false,
-                properties: {
-                  requireMention: { type: "boolean" },
-                  toolPolicy: { type: "string" },
-                },
-              },
-            },
-          },
-        },
-      },
-    },
+/** 配置 schema 使用的 JSON Schema 子集，validate.ts 按同一份定义校验配置 */
+export type FeishuJsonSchema = {
+  type?: "object" | "array" | "string" | "number" | "boolean";
+  enum?: readonly string[];
+  properties?: Record<string, FeishuJsonSchema>;
+  additionalProperties?: boolean | FeishuJsonSchema;
+  items?: FeishuJsonSchema;
+  oneOf?: FeishuJsonSchema[];
+};
+
+const stringList: FeishuJsonSchema = { type: "array", items: { type: "string" } };
+
+const objectSchema = (properties: Record<string, FeishuJsonSchema>): FeishuJsonSchema => ({
+  type: "object",
+  additionalProperties: false,
+  properties,
+});
+
+/** 群聊配置项（channels.<chat_id>），键与 FeishuGroupConfig 一一对应 */
+const groupProperties = {
+  requireMention: { type: "boolean" },
+  ignoreOtherMentions: { type: "boolean" },
+  // 预设名称不在 schema 中限制：无法识别的预设按 none 处理，由 validate.ts 给出警告
+  toolPolicy: {
+    oneOf: [{ type: "string" }, objectSchema({ allow: stringList, deny: stringList })],
   },
+  agentId: { type: "string" },
+  systemPrompt: { type: "string" },
+  language: { type: "string" },
+  replyToMode: { type: "string", enum: ["off", "first", "all"] },
+  replyFormat: { type: "string", enum: ["text", "post", "card"] },
+  replyInThread: { type: "boolean" },
+  allowMentionAll: { type: "boolean" },
+} satisfies Record<keyof FeishuGroupConfig, FeishuJsonSchema>;
+
+/** 账户配置项，根配置与 accounts.<id> 共用；键与 FeishuAccountConfig 一一对应 */
+const accountProperties = {
+  enabled: { type: "boolean" },
+  name: { type: "string" },
+  appId: { type: "string" },
+  appSecret: { type: "string" },
+  verificationToken: { type: "string" },
+  encryptKey: { type: "string" },
+  eventMode: { type: "string", enum: ["ws", "http"] },
+  domain: { type: "string" },
+  baseUrl: { type: "string" },
+  dm: objectSchema({
+    enabled: { type: "boolean" },
+    policy: { type: "string", enum: ["open", "pairing"] },
+    allowFrom: stringList,
+  }),
+  groupPolicy: { type: "string", enum: ["open", "allowlist"] },
+  requireMention: { type: "boolean" },
+  ignoreOtherMentions: { type: "boolean" },
+  replyToMode: { type: "string", enum: ["off", "first", "all"] },
+  replyFormat: { type: "string", enum: ["text", "post", "card"] },
+  replyInThread: { type: "boolean" },
+  allowMentionAll: { type: "boolean" },
+  welcomeMessage: { type: "string" },
+  autoAllowGroups: { type: "boolean" },
+  reactionFeedback: { type: "boolean" },
+  deleteRepliesOnRecall: { type: "boolean" },
+  streaming: { type: "boolean" },
+  mediaMaxMb: { type: "number" },
+  mediaLocalRoots: stringList,
+  persistDedupe: { type: "boolean" },
+  eventQueue: objectSchema({
+    concurrency: { type: "number" },
+    maxPending: { type: "number" },
+  }),
+  userDirectory: objectSchema({
+    ttlMinutes: { type: "number" },
+    maxEntries: { type: "number" },
+    persist: { type: "boolean" },
+  }),
+  actions: { type: "object", additionalProperties: { type: "boolean" } },
+  channels: { type: "object", additionalProperties: objectSchema(groupProperties) },
+} satisfies Record<keyof FeishuAccountConfig, FeishuJsonSchema>;
+
+/** 单个账户合并后的配置 schema */
+export const feishuAccountSchema = objectSchema(accountProperties);
+
+export const feishuConfigSchema = {
+  schema: objectSchema({
+    ...accountProperties,
+    accounts: { type: "object", additionalProperties: feishuAccountSchema },
+  }),
   uiHints: {
     // 基础配置（优先显示）
     enabled: { label: "Enabled", order: 1 },
@@ -126,11 +128,16 @@ export const feishuConfigSchema = {
       advanced: true,
       description: "事件订阅方式：ws (长连接) 或 http (回调)",
     },
+    domain: {
+      label: "Domain",
+      order: 4,
+      description: "平台域名：feishu（飞书，默认）、lark（Lark 海外版）或自定义开放平台地址",
+    },
     baseUrl: {
       label: "Base URL",
       order: 11,
       advanced: true,
-      description: "API 地址，默认 https://open.feishu.cn/open-apis",
+      description: "API 地址，默认由 domain 决定（如 https://open.feishu.cn/open-apis）",
     },
     verificationToken: {
       label: "Verification Token",
@@ -164,13 +171,91 @@ export const feishuConfigSchema = {
       advanced: true,
       description: "回复模式：off / first / all",
     },
+    replyFormat: {
+      label: "Reply Format",
+      order: 23,
+      advanced: true,
+      description: "回复格式：text (纯文本)、post (富文本) 或 card (消息卡片，渲染 Markdown)",
+    },
+    streaming: {
+      label: "Streaming",
+      order: 24,
+      advanced: true,
+      description: "流式回复：先发送一条消息，再随输出逐步编辑更新",
+    },
     mediaMaxMb: {
       label: "Media Max MB",
-      order: 23,
+      order: 25,
       advanced: true,
       description: "媒体文件最大大小（MB）",
     },
+    mediaLocalRoots: {
+      label: "Media Local Roots",
+      order: 25,
+      advanced: true,
+      description: "允许作为媒体发送的本地目录，agent 工作区和 <临时目录>/openclaw-feishu/outbound 始终允许",
+    },
+    replyInThread: {
+      label: "Reply In Thread",
+      order: 26,
+      advanced: true,
+      description: "群聊中以话题形式回复，每个话题使用独立会话",
+    },
+    persistDedupe: {
+      label: "Persist Dedupe",
+      order: 27,
+      advanced: true,
+      description: "将事件去重记录持久化到插件状态目录，重启后仍能过滤重推的事件",
+    },
+    eventQueue: {
+      label: "Event Queue",
+      order: 28,
+      advanced: true,
+      description: "事件后台处理的并发数（concurrency）和排队上限（maxPending），HTTP 回调和长连接共用",
+    },
+    userDirectory: {
+      label: "User Directory",
+      order: 29,
+      advanced: true,
+      description: "发送人名称缓存的有效期（ttlMinutes）、容量（maxEntries）和是否持久化（persist）",
+    },
     dm: { label: "Direct Message", order: 30, advanced: true },
+    allowMentionAll: {
+      label: "Allow @all",
+      order: 31,
+      advanced: true,
+      description: "是否允许回复中的 @all 提及所有人（默认不允许），可在 channels 中按群开启",
+    },
+    ignoreOtherMentions: {
+      label: "Ignore Other Mentions",
+      order: 32,
+      advanced: true,
+      description: "不要求 @ 时，消息 @ 了其他人（而非机器人）则不回复",
+    },
+    welcomeMessage: {
+      label: "Welcome Message",
+      order: 33,
+      advanced: true,
+      description: "机器人被拉入群时发送的欢迎 / 帮助消息",
+    },
+    autoAllowGroups: {
+      label: "Auto Allow Groups",
+      order: 34,
+      advanced: true,
+      description: "groupPolicy 为 allowlist 时，白名单用户将机器人拉入群后自动放行该群",
+    },
+    reactionFeedback: {
+      label: "Reaction Feedback",
+      order: 35,
+      advanced: true,
+      description: "用户对机器人回复的表情回复以系统提示写入会话",
+    },
+    deleteRepliesOnRecall: {
+      label: "Delete Replies On Recall",
+      order: 36,
+      advanced: true,
+      description: "用户撤回消息时，同时撤回机器人对该消息的回复",
+    },
     actions: { label: "Actions", order: 40, advanced: true },
     channels: { label: "Channels", order: 50, advanced: true },
     accounts: { label: "Accounts", order: 60, advanced: true, description: "多账户配置" },
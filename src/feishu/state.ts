@@ -4,7 +4,12 @@
  */
 
 import type { MoltbotConfig } from "openclaw/plugin-sdk";
-import { resolveFeishuAccount, resolveFeishuEventMode, resolveFeishuBaseUrl } from "./config.js";
+import { resolveFeishuAccount, resolveFeishuEventMode, resolveFeishuDomain } from "./config.js";
+import { FeishuChatStore, type FeishuChatStoreParams } from "./chats.js";
+import { FeishuDedupeStore, type FeishuDedupeStoreParams } from "./dedupe.js";
+import { FeishuUserDirectory, type FeishuUserDirectoryParams } from "./directory.js";
+import type { FeishuBotIdentity, FeishuChatMember } from "./mentions.js";
+import { FeishuEventQueue, type FeishuEventQueueParams } from "./queue.js";
 import { FeishuWsClient } from "./ws-client.js";
 
 export type FeishuRuntimeState = {
@@ -14,6 +19,34 @@ export type FeishuRuntimeState = {
   lastError: string | null;
   lastInboundAt: number | null;
   lastOutboundAt: number | null;
+  /** 丢弃的重复投递事件数 */
+  duplicatesDropped: number;
+  /** API 请求的重试次数（限流、服务端异常等） */
+  apiRetries: number;
+};
+
+/** 机器人在会话中发送的消息，用于将表情回复等事件关联回会话 */
+export type FeishuSentMessage = {
+  sessionKey: string;
+  chatId?: string;
+  /** 回复的入站消息 */
+  replyTo?: string;
+  /** 消息开头部分 */
+  excerpt?: string;
+  sentAt: number;
+};
+
+/** 已处理的入站消息，用户撤回消息时据此中止回复并标记会话 */
+export type FeishuInboundRun = {
+  sessionKey: string;
+  /** 中止正在生成的回复 */
+  abort: AbortController;
+  /** 回复是否仍在生成中 */
+  active: boolean;
+  /** 是否已被用户撤回 */
+  recalled: boolean;
+  /** 消息开头部分 */
+  excerpt?: string;
 };
 
 export type FeishuLogger = {
@@ -25,6 +58,30 @@ export type FeishuLogger = {
 
 const runtimeState = new Map<string, FeishuRuntimeState>();
 const wsClients = new Map<string, FeishuWsClient>();
+const dedupeStores = new Map<string, FeishuDedupeStore>();
+const eventQueues = new Map<string, FeishuEventQueue>();
+const userDirectories = new Map<string, FeishuUserDirectory>();
+const chatStores = new Map<string, FeishuChatStore>();
+/** accountId → 机器人自身身份，账户启动时获取 */
+const botIdentities = new Map<string, FeishuBotIdentity>();
+/** 群成员缓存的有效期，用于解析回复中的 @名称 */
+const CHAT_MEMBERS_TTL_MS = 10 * 60 * 1000;
+/** `${accountId}:${chatId}` → 群成员及过期时间 */
+const chatMembers = new Map<string, { members: FeishuChatMember[]; expiresAt: number }>();
+/** 每个账户记录的话题数量上限，超出后淘汰最早记录的话题 */
+const THREAD_MESSAGE_LIMIT = 1000;
+/** accountId → (thread_id → 话题内最近一条消息的 message_id) */
+const threadMessages = new Map<string, Map<string, string>>();
+/** 每个账户记录的已发送消息数量上限，超出后淘汰最早发送的消息 */
+const SENT_MESSAGE_LIMIT = 2000;
+/** accountId → (message_id → 机器人发送的消息) */
+const sentMessages = new Map<string, Map<string, FeishuSentMessage>>();
+/** 每个账户记录的入站消息数量上限，超出后淘汰最早的记录 */
+const INBOUND_RUN_LIMIT = 1000;
+/** accountId → (message_id → 入站消息的处理记录) */
+const inboundRuns = new Map<string, Map<string, FeishuInboundRun>>();
+/** accountId → 处理记录建立前就被撤回的 message_id，数量上限同 INBOUND_RUN_LIMIT */
+const earlyRecalls = new Map<string, Set<string>>();
 
 export const getState = (accountId: string): FeishuRuntimeState => {
   const existing = runtimeState.get(accountId);
@@ -36,11 +93,196 @@ export const getState = (accountId: string): FeishuRuntimeState => {
     lastError: null,
     lastInboundAt: null,
     lastOutboundAt: null,
+    duplicatesDropped: 0,
+    apiRetries: 0,
   };
   runtimeState.set(accountId, next);
   return next;
 };
 
+/**
+ * 记录话题内的最近一条消息，飞书只能通过回复话题内的消息向话题发送内容
+ */
+export const rememberThreadMessage = (accountId: string, threadId: string, messageId: string) => {
+  let threads = threadMessages.get(accountId);
+  if (!threads) {
+    threads = new Map();
+    threadMessages.set(accountId, threads);
+  }
+  threads.delete(threadId);
+  threads.set(threadId, messageId);
+  if (threads.size > THREAD_MESSAGE_LIMIT) {
+    const oldest = threads.keys().next().value;
+    if (oldest !== undefined) threads.delete(oldest);
+  }
+};
+
+/**
+ * 记录机器人发送的消息及其所在会话
+ */
+export const rememberSentMessage = (
+  accountId: string,
+  messageId: string,
+  message: FeishuSentMessage,
+) => {
+  let messages = sentMessages.get(accountId);
+  if (!messages) {
+    messages = new Map();
+    sentMessages.set(accountId, messages);
+  }
+  messages.delete(messageId);
+  messages.set(messageId, message);
+  if (messages.size > SENT_MESSAGE_LIMIT) {
+    const oldest = messages.keys().next().value;
+    if (oldest !== undefined) messages.delete(oldest);
+  }
+};
+
+export const resolveSentMessage = (
+  accountId: string,
+  messageId: string,
+): FeishuSentMessage | undefined => sentMessages.get(accountId)?.get(messageId);
+
+/** 机器人对某条入站消息发出的所有回复 */
+export const listSentReplies = (accountId: string, replyTo: string): string[] =>
+  Array.from(sentMessages.get(accountId) ?? [])
+    .filter(([, message]) => message.replyTo === replyTo)
+    .map(([messageId]) => messageId);
+
+/**
+ * 记录入站消息的处理过程，撤回事件按 message_id 查找
+ */
+export const rememberInboundRun = (accountId: string, messageId: string, run: FeishuInboundRun) => {
+  let runs = inboundRuns.get(accountId);
+  if (!runs) {
+    runs = new Map();
+    inboundRuns.set(accountId, runs);
+  }
+  runs.delete(messageId);
+  runs.set(messageId, run);
+  if (runs.size > INBOUND_RUN_LIMIT) {
+    const oldest = runs.keys().next().value;
+    if (oldest !== undefined) runs.delete(oldest);
+  }
+};
+
+export const resolveInboundRun = (
+  accountId: string,
+  messageId: string,
+): FeishuInboundRun | undefined => inboundRuns.get(accountId)?.get(messageId);
+
+/**
+ * 记录尚未建立处理记录的撤回（消息仍在加载身份、读取授权或查询通讯录），
+ * 处理记录建立时通过 consumeEarlyRecall 检查
+ */
+export const rememberEarlyRecall = (accountId: string, messageId: string) => {
+  let recalls = earlyRecalls.get(accountId);
+  if (!recalls) {
+    recalls = new Set();
+    earlyRecalls.set(accountId, recalls);
+  }
+  recalls.add(messageId);
+  if (recalls.size > INBOUND_RUN_LIMIT) {
+    const oldest = recalls.values().next().value;
+    if (oldest !== undefined) recalls.delete(oldest);
+  }
+};
+
+/** 消息是否在处理记录建立前已被撤回，检查后清除记录 */
+export const consumeEarlyRecall = (accountId: string, messageId: string): boolean =>
+  earlyRecalls.get(accountId)?.delete(messageId) ?? false;
+
+export const resolveThreadMessage = (accountId: string, threadId: string): string | undefined =>
+  threadMessages.get(accountId)?.get(threadId);
+
+/**
+ * 获取账户的事件去重存储，WebSocket 和 HTTP 回调共用同一个实例；params 仅在首次创建时生效
+ */
+export const getDedupeStore = (
+  accountId: string,
+  params: FeishuDedupeStoreParams = {},
+): FeishuDedupeStore => {
+  const existing = dedupeStores.get(accountId);
+  if (existing) return existing;
+  const store = new FeishuDedupeStore(params);
+  dedupeStores.set(accountId, store);
+  return store;
+};
+
+/**
+ * 获取账户的 HTTP 回调事件队列；params 仅在首次创建时生效
+ */
+export const getEventQueue = (
+  accountId: string,
+  params: FeishuEventQueueParams = {},
+): FeishuEventQueue => {
+  const existing = eventQueues.get(accountId);
+  if (existing) return existing;
+  const queue = new FeishuEventQueue(params);
+  eventQueues.set(accountId, queue);
+  return queue;
+};
+
+/**
+ * 获取账户的用户目录缓存，入站消息与 member-info 共用；params 仅在首次创建时生效
+ */
+export const getUserDirectory = (
+  accountId: string,
+  params: FeishuUserDirectoryParams = {},
+): FeishuUserDirectory => {
+  const existing = userDirectories.get(accountId);
+  if (existing) return existing;
+  const directory = new FeishuUserDirectory(params);
+  userDirectories.set(accountId, directory);
+  return directory;
+};
+
+/**
+ * 获取账户的群聊记录，入群事件与群消息共用；params 仅在首次创建时生效
+ */
+export const getChatStore = (
+  accountId: string,
+  params: FeishuChatStoreParams = {},
+): FeishuChatStore => {
+  const existing = chatStores.get(accountId);
+  if (existing) return existing;
+  const store = new FeishuChatStore(params);
+  chatStores.set(accountId, store);
+  return store;
+};
+
+export const getBotIdentity = (accountId: string): FeishuBotIdentity | undefined =>
+  botIdentities.get(accountId);
+
+export const setBotIdentity = (accountId: string, identity: FeishuBotIdentity): void => {
+  botIdentities.set(accountId, identity);
+};
+
+export const getCachedChatMembers = (
+  accountId: string,
+  chatId: string,
+): FeishuChatMember[] | undefined => {
+  const key = `${accountId}:${chatId}`;
+  const entry = chatMembers.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    chatMembers.delete(key);
+    return undefined;
+  }
+  return entry.members;
+};
+
+export const setCachedChatMembers = (
+  accountId: string,
+  chatId: string,
+  members: FeishuChatMember[],
+): void => {
+  chatMembers.set(`${accountId}:${chatId}`, {
+    members,
+    expiresAt: Date.now() + CHAT_MEMBERS_TTL_MS,
+  });
+};
+
 export const getWsClient = (accountId: string): FeishuWsClient | undefined => {
   return wsClients.get(accountId);
 };
@@ -88,14 +330,12 @@ export const startWsClient = async (params: StartWsClientParams): Promise<boolea
     return true;
   }
 
-  const baseUrl =
-    resolveFeishuBaseUrl({ cfg: params.cfg, accountId: account.accountId }) ??
-    "https://open.feishu.cn/open-apis";
+  const domain = resolveFeishuDomain({ cfg: params.cfg, accountId: account.accountId });
 
   const wsClient = new FeishuWsClient({
     appId: account.appId,
     appSecret: account.appSecret,
-    baseUrl,
+    wsBaseUrl: domain.wsBaseUrl,
     logger: params.logger,
   });
 
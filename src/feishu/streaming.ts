@@ -0,0 +1,221 @@
+/**
+ * file: src/feishu/streaming.ts
+ * desc: 流式回复：先发送一条消息，再随着输出节流编辑同一条消息
+ */
+
+import { chunkFeishuText, FEISHU_TEXT_CHUNK_LIMIT } from "./chunker.js";
+import type { FeishuReplyFormat } from "./config.js";
+import type { FeishuLogger } from "./state.js";
+
+export type FeishuReplyStreamParams = {
+  /** 发送新消息，返回 message_id */
+  send: (text: string) => Promise<{ messageId?: string }>;
+  /** 编辑已发送的消息 */
+  edit: (messageId: string, text: string) => Promise<unknown>;
+  /** 两次编辑的最小间隔 */
+  throttleMs?: number;
+  /** 单条消息的最大字符数，超出后封存当前消息并另起一条 */
+  maxChars?: number;
+  /** 单条消息允许的最大编辑次数（文本和富文本消息有次数限制，卡片不限） */
+  maxEdits?: number;
+  /** 消息格式，决定单条消息的字节上限 */
+  format?: FeishuReplyFormat;
+  log?: FeishuLogger;
+};
+
+type StreamSegment = {
+  messageId: string | null;
+  /** 当前消息在完整文本中的起始位置 */
+  offset: number;
+  /** 切开代码块或表格时补在开头的围栏或表头，不在完整文本中 */
+  prefix: string;
+  /** 已显示在消息中的文本 */
+  shown: string;
+  edits: number;
+};
+
+/** 文本和富文本消息的编辑次数上限 */
+export const FEISHU_MESSAGE_EDIT_LIMIT = 20;
+
+const DEFAULT_THROTTLE_MS = 1000;
+
+const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+
+/**
+ * 封存的分段在原文中的结束位置。分段会合并空行、去掉行尾空白，
+ * 并在切开代码块时补上结束围栏，因此逐字符比较并整体跳过空白，遇到不一致处停止
+ */
+const findSealedEnd = (sealed: string, source: string) => {
+  let i = 0;
+  let j = 0;
+  while (i < sealed.length && j < source.length) {
+    if (isSpace(sealed[i]) || isSpace(source[j])) {
+      while (isSpace(sealed[i])) i += 1;
+      while (isSpace(source[j])) j += 1;
+      continue;
+    }
+    if (sealed[i] !== source[j]) break;
+    i += 1;
+    j += 1;
+  }
+  while (isSpace(source[j])) j += 1;
+  return j;
+};
+
+/**
+ * 下一段开头补上的围栏或表头：跳过下一段开头的若干行，直到与原文剩余部分对上
+ */
+const findCarriedPrefix = (next: string, rest: string) => {
+  let start = 0;
+  for (let line = 0; line < 3; line += 1) {
+    const probe = next.slice(start).split("\n", 1)[0].slice(0, 64);
+    if (probe && rest.startsWith(probe)) return next.slice(0, start);
+    const newline = next.indexOf("\n", start);
+    if (newline === -1) break;
+    start = newline + 1;
+  }
+  return "";
+};
+
+const emptySegment = (): StreamSegment => ({
+  messageId: null,
+  offset: 0,
+  prefix: "",
+  shown: "",
+  edits: 0,
+});
+
+export class FeishuReplyStream {
+  private readonly params: FeishuReplyStreamParams;
+  private readonly throttleMs: number;
+  private readonly maxChars: number;
+  private segment: StreamSegment = emptySegment();
+  private latest = "";
+  private lastFlushAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private failed = false;
+  private cancelled = false;
+
+  constructor(params: FeishuReplyStreamParams) {
+    this.params = params;
+    this.throttleMs = params.throttleMs ?? DEFAULT_THROTTLE_MS;
+    this.maxChars = params.maxChars ?? FEISHU_TEXT_CHUNK_LIMIT;
+  }
+
+  /**
+   * 更新累计的部分输出，按节流间隔刷新到消息
+   */
+  update(text: string) {
+    if (this.failed || this.cancelled || !text.trim()) return;
+    this.latest = text;
+    if (this.timer) return;
+    const wait = Math.max(0, this.lastFlushAt + this.throttleMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.enqueue(() => this.flush(false));
+    }, wait);
+  }
+
+  /**
+   * 写入最终文本（未指定时为最近一次的部分输出）并结束当前流，之后的 update 会开始一条新消息。
+   * ok 为 false 表示流式发送失败，调用方应以普通消息发送 remaining。
+   */
+  async finalize(text = this.latest): Promise<{ ok: boolean; remaining: string }> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.latest = text;
+    this.enqueue(() => this.flush(true));
+    await this.queue;
+    // 失败时，已显示在消息中的前缀无需重复发送
+    const pending = this.pendingText();
+    const remaining = !this.failed
+      ? ""
+      : pending.startsWith(this.segment.shown)
+        ? pending.slice(this.segment.shown.length)
+        : pending;
+    const ok = !this.failed;
+    this.reset();
+    return { ok, remaining };
+  }
+
+  /**
+   * 中止流式更新：取消待执行的刷新，之后不再发送或编辑消息
+   */
+  cancel() {
+    this.cancelled = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private reset() {
+    this.segment = emptySegment();
+    this.latest = "";
+    this.failed = false;
+  }
+
+  private enqueue(task: () => Promise<void>) {
+    this.queue = this.queue.then(task).catch((err) => {
+      this.failed = true;
+      this.params.log?.warn?.(`feishu streaming update failed: ${String(err)}`);
+    });
+  }
+
+  private async flush(final: boolean) {
+    if (this.failed || this.cancelled) return;
+    this.lastFlushAt = Date.now();
+
+    let pending = this.pendingText();
+    // 超出单条消息上限时，按 chunkFeishuText 的切分封存当前消息并另起一条
+    for (;;) {
+      const chunks = chunkFeishuText(pending, this.maxChars, {
+        format: this.params.format,
+        numbered: false,
+      });
+      const end = chunks.length > 1 ? findSealedEnd(chunks[0], pending) : 0;
+      const prefixLength = this.segment.prefix.length;
+      if (end <= prefixLength) break;
+      await this.render(chunks[0], true);
+      this.segment = {
+        ...emptySegment(),
+        offset: this.segment.offset + end - prefixLength,
+        prefix: findCarriedPrefix(chunks[1], pending.slice(end)),
+      };
+      pending = this.pendingText();
+    }
+    if (!pending.trim()) return;
+    await this.render(pending, final);
+  }
+
+  private pendingText() {
+    return this.segment.prefix + this.latest.slice(this.segment.offset);
+  }
+
+  private async render(text: string, force: boolean) {
+    if (this.cancelled) return;
+    const segment = this.segment;
+    if (!segment.messageId) {
+      const result = await this.params.send(text);
+      if (!result.messageId) {
+        throw new Error("missing message_id for streaming message");
+      }
+      segment.messageId = result.messageId;
+      segment.shown = text;
+      return;
+    }
+    if (text === segment.shown) return;
+    const maxEdits = this.params.maxEdits;
+    // 预留最后一次编辑给最终内容
+    if (maxEdits !== undefined && !force && segment.edits >= maxEdits - 1) return;
+    if (maxEdits !== undefined && segment.edits >= maxEdits) {
+      throw new Error("streaming message edit limit reached");
+    }
+    await this.params.edit(segment.messageId, text);
+    segment.edits += 1;
+    segment.shown = text;
+  }
+}
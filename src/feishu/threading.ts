@@ -0,0 +1,26 @@
+/**
+ * file: src/feishu/threading.ts
+ * desc: 渠道 threading 钩子：SDK 发起的回复按所在群读取引用回复方式
+ */
+
+import type { MoltbotConfig } from "openclaw/plugin-sdk";
+
+import { resolveFeishuReplyToMode, type FeishuReplyToMode } from "./config.js";
+
+export const feishuThreading = {
+  /**
+   * 与入站回复一致，群内回复使用 channels.<chat_id>.replyToMode；
+   * 未提供群 ID 时（私聊）使用账户的 replyToMode
+   */
+  resolveReplyToMode: (params: {
+    cfg: MoltbotConfig;
+    accountId?: string | null;
+    groupId?: string | null;
+    groupChannel?: string | null;
+  }): FeishuReplyToMode =>
+    resolveFeishuReplyToMode({
+      cfg: params.cfg,
+      accountId: params.accountId,
+      groupId: params.groupId ?? params.groupChannel,
+    }),
+};
@@ -0,0 +1,125 @@
+/**
+ * file: src/feishu/token.ts
+ * desc: tenant_access_token 管理：同一应用的所有 FeishuClient 共享缓存，并发刷新合并为一次请求
+ */
+
+type FeishuTokenResponse = {
+  tenant_access_token?: string;
+  expire?: number;
+  code?: number;
+  msg?: string;
+};
+
+type TokenCache = {
+  value: string;
+  /** 开始提前刷新的时间 */
+  refreshAt: number;
+};
+
+export type FeishuTokenManagerConfig = {
+  appId: string;
+  appSecret: string;
+  baseUrl: string;
+  /** 距过期不足该时长时提前刷新，不超过 token 有效期的一半 */
+  refreshAheadMs?: number;
+};
+
+/** token 无效（99991663）或已过期（99991668） */
+export const FEISHU_TOKEN_ERROR_CODES = new Set([99991663, 99991668]);
+
+const DEFAULT_REFRESH_AHEAD_MS = 5 * 60 * 1000;
+/** 提前刷新的时长占 token 有效期的上限比例，避免有效期较短时每次请求都刷新 */
+const MAX_REFRESH_AHEAD_RATIO = 0.5;
+
+export class FeishuTokenManager {
+  private readonly appId: string;
+  private readonly appSecret: string;
+  private readonly baseUrl: string;
+  private readonly refreshAheadMs: number;
+  private cache: TokenCache | null = null;
+  private inflight: Promise<string> | null = null;
+
+  constructor(config: FeishuTokenManagerConfig) {
+    this.appId = config.appId;
+    this.appSecret = config.appSecret;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+    this.refreshAheadMs = config.refreshAheadMs ?? DEFAULT_REFRESH_AHEAD_MS;
+  }
+
+  /**
+   * 获取有效的 token，临近过期时刷新，刷新中的请求共享同一个结果
+   */
+  async getToken(): Promise<string> {
+    const cache = this.cache;
+    if (cache && cache.refreshAt > Date.now()) {
+      return cache.value;
+    }
+    if (!this.inflight) {
+      this.inflight = this.fetchToken().finally(() => {
+        this.inflight = null;
+      });
+    }
+    return await this.inflight;
+  }
+
+  /** 是否使用该 appSecret，密钥变化时需要新的管理器 */
+  hasSecret(appSecret: string) {
+    return this.appSecret === appSecret;
+  }
+
+  /**
+   * 使 token 失效；传入 token 时仅在缓存仍是该值时清除，避免清掉其他请求刚刷新的 token
+   */
+  invalidate(token?: string) {
+    if (!token || this.cache?.value === token) {
+      this.cache = null;
+    }
+  }
+
+  private async fetchToken(): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/auth/v3/tenant_access_token/internal`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+      },
+      body: JSON.stringify({
+        app_id: this.appId,
+        app_secret: this.appSecret,
+      }),
+    });
+    const json = (await response.json()) as FeishuTokenResponse;
+    if (!response.ok || json.code) {
+      const message = json.msg ?? response.statusText;
+      throw new Error(`Feishu auth failed: ${message}`);
+    }
+    if (!json.tenant_access_token) {
+      throw new Error("Feishu auth failed: missing access token");
+    }
+    const now = Date.now();
+    const expireMs = (json.expire ?? 0) * 1000;
+    this.cache = {
+      value: json.tenant_access_token,
+      refreshAt: now + expireMs - Math.min(this.refreshAheadMs, expireMs * MAX_REFRESH_AHEAD_RATIO),
+    };
+    return json.tenant_access_token;
+  }
+}
+
+const managers = new Map<string, FeishuTokenManager>();
+
+/**
+ * 获取应用共享的 token 管理器（按 baseUrl + appId 区分），appSecret 变化时重新创建
+ */
+export function getFeishuTokenManager(config: FeishuTokenManagerConfig): FeishuTokenManager {
+  const key = `${config.baseUrl.replace(/\/+$/, "")}|${config.appId}`;
+  const existing = managers.get(key);
+  if (existing?.hasSecret(config.appSecret)) return existing;
+  const manager = new FeishuTokenManager(config);
+  managers.set(key, manager);
+  return manager;
+}
+
+/** 清空共享的 token 管理器（测试使用） */
+export function resetFeishuTokenManagers() {
+  managers.clear();
+}
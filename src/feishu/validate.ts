@@ -0,0 +1,224 @@
+/**
+ * file: src/feishu/validate.ts
+ * desc: 配置校验：按 schema 检查账户合并后的配置，并检查密钥缺失、无法生效的白名单等常见问题
+ */
+
+import type { MoltbotConfig } from "openclaw/plugin-sdk";
+import { FEISHU_TOOL_POLICY_PRESETS, resolveFeishuAccount } from "./config.js";
+import { FEISHU_CHANNEL_ID, feishuAccountSchema, type FeishuJsonSchema } from "./schema.js";
+
+export type FeishuConfigDiagnostic = {
+  level: "error" | "warning";
+  /** 配置路径，如 channels.feishu.accounts.bot1.appSecret */
+  path: string;
+  message: string;
+};
+
+/** 账户 ID 会出现在 HTTP 回调路径和状态文件名中 */
+const ACCOUNT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const matchesType = (value: unknown, type: FeishuJsonSchema["type"]) => {
+  switch (type) {
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "string":
+    case "boolean":
+      return typeof value === type;
+    default:
+      return true;
+  }
+};
+
+const describeSchema = (schema: FeishuJsonSchema): string => {
+  if (schema.enum) return `one of ${schema.enum.map((value) => `"${value}"`).join(", ")}`;
+  if (schema.oneOf) return schema.oneOf.map(describeSchema).join(" or ");
+  return schema.type ?? "any value";
+};
+
+/**
+ * 按 schema 校验配置值，记录类型错误、非法枚举值和未知的配置项
+ */
+function checkSchema(
+  value: unknown,
+  schema: FeishuJsonSchema,
+  path: string,
+  out: FeishuConfigDiagnostic[],
+) {
+  if (value === undefined) return;
+  if (schema.oneOf) {
+    const matched = schema.oneOf.find((option) => {
+      const nested: FeishuConfigDiagnostic[] = [];
+      checkSchema(value, option, path, nested);
+      return nested.length === 0;
+    });
+    if (!matched) {
+      out.push({ level: "error", path, message: `expected ${describeSchema(schema)}` });
+    }
+    return;
+  }
+  if (!matchesType(value, schema.type)) {
+    out.push({ level: "error", path, message: `expected ${describeSchema(schema)}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    out.push({ level: "error", path, message: `expected ${describeSchema(schema)}` });
+    return;
+  }
+  const items = schema.items;
+  if (Array.isArray(value) && items) {
+    value.forEach((item, index) => checkSchema(item, items, `${path}[${index}]`, out));
+    return;
+  }
+  if (!isPlainObject(value)) return;
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = `${path}.${key}`;
+    const property = schema.properties?.[key];
+    if (property) {
+      checkSchema(child, property, childPath, out);
+    } else if (isPlainObject(schema.additionalProperties)) {
+      checkSchema(child, schema.additionalProperties, childPath, out);
+    } else if (schema.additionalProperties === false) {
+      out.push({ level: "warning", path: childPath, message: "unknown config key, ignored" });
+    }
+  }
+}
+
+/**
+ * 校验单个账户合并后的配置（根配置 + accounts.<id>）
+ * - schema：类型、枚举值和未知配置项
+ * - 账户 ID 格式
+ * - 启用的账户缺少 appId / appSecret；http 模式缺少 verificationToken 和 encryptKey
+ * - 私聊白名单中无法匹配发送人的条目、群白名单中不是群 ID 的条目
+ * - groupPolicy 为 allowlist 但没有配置任何群（且未开启 autoAllowGroups）
+ * - 群配置的 agentId 不在 agents.list 中
+ * - 群配置的 toolPolicy 不是已知的预设名称（运行时按 none 处理，禁用全部工具）
+ */
+export function validateFeishuAccountConfig(params: {
+  cfg: MoltbotConfig;
+  accountId?: string | null;
+}): FeishuConfigDiagnostic[] {
+  const account = resolveFeishuAccount(params);
+  const raw = (params.cfg.channels?.[FEISHU_CHANNEL_ID] ?? {}) as {
+    accounts?: Record<string, Record<string, unknown>>;
+  };
+  const ownConfig = raw.accounts?.[account.accountId];
+  const rootPath = `channels.${FEISHU_CHANNEL_ID}`;
+  const accountPath = `${rootPath}.accounts.${account.accountId}`;
+  // 诊断路径指向实际写入该配置项的位置
+  const pathOf = (key: string) => (ownConfig && key in ownConfig ? accountPath : rootPath);
+  const out: FeishuConfigDiagnostic[] = [];
+
+  for (const [key, value] of Object.entries(account.config as Record<string, unknown>)) {
+    // 合并后的配置带有根配置中的 accounts，各账户单独校验
+    if (key === "accounts") continue;
+    const schema = feishuAccountSchema.properties?.[key];
+    if (schema) {
+      checkSchema(value, schema, `${pathOf(key)}.${key}`, out);
+    } else {
+      out.push({
+        level: "warning",
+        path: `${pathOf(key)}.${key}`,
+        message: "unknown config key, ignored",
+      });
+    }
+  }
+
+  if (ownConfig && !ACCOUNT_ID_PATTERN.test(account.accountId)) {
+    out.push({
+      level: "error",
+      path: accountPath,
+      message:
+        "account id may only contain letters, digits, '-' and '_' (it is used in the callback URL)",
+    });
+  }
+
+  if (account.enabled) {
+    for (const key of ["appId", "appSecret"] as const) {
+      if (!account[key]?.trim()) {
+        out.push({ level: "error", path: `${pathOf(key)}.${key}`, message: `${key} is required` });
+      }
+    }
+    if (
+      account.eventMode === "http" &&
+      !account.verificationToken?.trim() &&
+      !account.encryptKey?.trim()
+    ) {
+      out.push({
+        level: "error",
+        path: `${pathOf("eventMode")}.eventMode`,
+        message:
+          "http event mode requires verificationToken or encryptKey to authenticate callbacks",
+      });
+    }
+  }
+
+  const dmPath = `${pathOf("dm")}.dm.allowFrom`;
+  (account.dm?.allowFrom ?? []).forEach((entry, index) => {
+    const value = String(entry).trim();
+    if (value === "*") return;
+    if (!value || /^(feishu|user|open|chat):/i.test(value) || value.startsWith("oc_")) {
+      out.push({
+        level: "warning",
+        path: `${dmPath}[${index}]`,
+        message: `allowlist entry "${value}" can never match a sender; use a bare user_id or open_id`,
+      });
+    }
+  });
+
+  const channelIds = Object.keys(account.channels ?? {});
+  const channelsPath = `${pathOf("channels")}.channels`;
+  for (const channelId of channelIds) {
+    if (channelId !== "*" && !channelId.startsWith("oc_")) {
+      out.push({
+        level: "warning",
+        path: `${channelsPath}.${channelId}`,
+        message: "group entries are keyed by chat_id (oc_...); this entry never matches a chat",
+      });
+    }
+  }
+  const agentIds = ((params.cfg as { agents?: { list?: Array<{ id?: string }> } }).agents?.list ?? [])
+    .map((agent) => agent.id)
+    .filter(Boolean);
+  for (const [channelId, groupConfig] of Object.entries(account.channels ?? {})) {
+    const agentId = groupConfig?.agentId?.trim();
+    if (agentId && agentIds.length > 0 && !agentIds.includes(agentId)) {
+      out.push({
+        level: "warning",
+        path: `${channelsPath}.${channelId}.agentId`,
+        message: `agent "${agentId}" is not defined in agents.list`,
+      });
+    }
+    const toolPolicy = groupConfig?.toolPolicy;
+    if (
+      typeof toolPolicy === "string" &&
+      !(FEISHU_TOOL_POLICY_PRESETS as readonly string[]).includes(toolPolicy)
+    ) {
+      out.push({
+        level: "warning",
+        path: `${channelsPath}.${channelId}.toolPolicy`,
+        message: `unknown tool policy "${toolPolicy}" (expected ${FEISHU_TOOL_POLICY_PRESETS.map((preset) => `"${preset}"`).join(", ")}); all tools are denied in this group`,
+      });
+    }
+  }
+  if (
+    account.groupPolicy === "allowlist" &&
+    !account.autoAllowGroups &&
+    !channelIds.some((id) => id.startsWith("oc_"))
+  ) {
+    out.push({
+      level: "warning",
+      path: `${pathOf("groupPolicy")}.groupPolicy`,
+      message:
+        "groupPolicy is allowlist but no groups are listed in channels; all group messages are ignored",
+    });
+  }
+
+  return out;
+}
@@ -16,7 +16,8 @@ type WsLogger = {
 type WsClientConfig = {
   appId: string;
   appSecret: string;
-  baseUrl: string;
+  /** 开放平台根地址（不含 /open-apis），由域名配置解析得到 */
+  wsBaseUrl: string;
   logger?: WsLogger;
   autoReconnect?: boolean;
 };
@@ -88,14 +89,6 @@ const getWebSocketCtor = (): new (url: string) => WebSocketLike => {
 
 const normalizeBaseUrl = (value: string) => value.replace(/\/+$/, "");
 
-const resolveWsBaseUrl = (value: string) => {
-  const normalized = normalizeBaseUrl(value);
-  if (normalized.endsWith("/open-apis")) {
-    return normalized.slice(0, -"/open-apis".length);
-  }
-  return normalized;
-};
-
 const payloadToUint8 = (data: unknown): Uint8Array | null => {
   if (data instanceof ArrayBuffer) {
     return new Uint8Array(data);
@@ -132,12 +125,12 @@ export class FeishuWsClient {
   constructor(config: WsClientConfig) {
     this.config = {
       ...config,
-      baseUrl: normalizeBaseUrl(config.baseUrl),
+      wsBaseUrl: normalizeBaseUrl(config.wsBaseUrl),
       autoReconnect: config.autoReconnect ?? true,
     };
     this.logger = config.logger;
     this.cache = new WsDataCache({ logger: config.logger });
-    this.wsBaseUrl = resolveWsBaseUrl(this.config.baseUrl);
+    this.wsBaseUrl = this.config.wsBaseUrl;
   }
 
   async start(handler: WsEventHandler) {
@@ -367,15 +360,18 @@ export class FeishuWsClient {
 
     const start = Date.now();
     let response: JsonValue | void = undefined;
+    let status = STATUS_OK;
     try {
       response = await this.eventHandler(merged);
     } catch (err) {
+      // 以失败状态确认，飞书会稍后重推该事件
+      status = STATUS_ERROR;
       this.logger?.error?.(`[feishu-ws] event handler error: ${String(err)}`);
     }
     const end = Date.now();
 
     const respPayload: { code: number; data?: string } = {
-      code: STATUS_OK,
+      code: status,
     };
     if (response) {
       respPayload.data = Buffer.from(JSON.stringify(response)).toString("base64");
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+
+import { FeishuChatStore } from "../../src/feishu/chats.js";
+
+test("FeishuChatStore keeps the first join time and merges later fields", () => {
+  const store = new FeishuChatStore();
+  store.upsert({ chatId: "oc_1" }, 100);
+  const record = store.upsert({ chatId: "oc_1", name: "Finance", addedBy: "u_1", allowed: true }, 200);
+  assert.deepEqual(record, {
+    chatId: "oc_1",
+    name: "Finance",
+    addedBy: "u_1",
+    allowed: true,
+    joinedAt: 100,
+  });
+  // 群消息只带 chat_id，不应覆盖已有字段
+  store.upsert({ chatId: "oc_1" }, 300);
+  assert.equal(store.isAllowed("oc_1"), true);
+  assert.equal(store.get("oc_1")?.name, "Finance");
+});
+
+test("FeishuChatStore revokes the allowlist entry when the bot leaves", () => {
+  const store = new FeishuChatStore();
+  store.upsert({ chatId: "oc_1", allowed: true });
+  assert.equal(store.remove("oc_1")?.allowed, true);
+  assert.equal(store.isAllowed("oc_1"), false);
+  assert.equal(store.remove("oc_1"), undefined);
+  assert.equal(store.size, 0);
+});
+
+test("FeishuChatStore persists chats to disk", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-chats-"));
+  const filePath = path.join(dir, "nested", "chats.json");
+  try {
+    const store = new FeishuChatStore({ filePath });
+    store.upsert({ chatId: "oc_1", allowed: true });
+    store.upsert({ chatId: "oc_2" });
+    await store.flush();
+    const restored = new FeishuChatStore({ filePath });
+    assert.deepEqual(
+      restored.list().map((chat) => chat.chatId),
+      ["oc_1", "oc_2"],
+    );
+    assert.equal(restored.isAllowed("oc_1"), true);
+    assert.equal(restored.isAllowed("oc_2"), false);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
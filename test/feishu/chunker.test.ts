@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { chunkFeishuText, FEISHU_MAX_BYTES } from "../../src/feishu/chunker.js";
+
+test("chunkFeishuText keeps short text as a single chunk", () => {
+  assert.deepEqual(chunkFeishuText("hello\n\nworld", 100), ["hello\n\nworld"]);
+  assert.deepEqual(chunkFeishuText("   ", 100), []);
+});
+
+test("chunkFeishuText splits at paragraph boundaries and numbers the parts", () => {
+  const text = ["a".repeat(30), "b".repeat(30), "c".repeat(30)].join("\n\n");
+  const chunks = chunkFeishuText(text, 50);
+  assert.deepEqual(chunks, [
+    `${"a".repeat(30)}\n\n(1/3)`,
+    `${"b".repeat(30)}\n\n(2/3)`,
+    `${"c".repeat(30)}\n\n(3/3)`,
+  ]);
+  assert.deepEqual(chunkFeishuText(text, 50, { numbered: false }), [
+    "a".repeat(30),
+    "b".repeat(30),
+    "c".repeat(30),
+  ]);
+});
+
+test("chunkFeishuText splits long paragraphs at sentence boundaries", () => {
+  const text = "第一句话比较长。第二句话也比较长。第三句话同样很长。";
+  const chunks = chunkFeishuText(text, 10, { numbered: false });
+  assert.deepEqual(chunks, ["第一句话比较长。", "第二句话也比较长。", "第三句话同样很长。"]);
+});
+
+test("chunkFeishuText reopens code fences when a code block is split", () => {
+  const code = Array.from({ length: 6 }, (_, index) => `line_${index} = ${index}`).join("\n");
+  const text = `Intro\n\n\`\`\`python\n${code}\n\`\`\``;
+  const chunks = chunkFeishuText(text, 60, { numbered: false });
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.ok(chunk.length <= 60);
+  }
+  const codeChunks = chunks.filter((chunk) => chunk.includes("line_"));
+  for (const chunk of codeChunks) {
+    assert.match(chunk, /```python\n[\s\S]*\n```$/);
+  }
+  assert.equal(
+    codeChunks
+      .map((chunk) => chunk.replace(/^[\s\S]*?```python\n/, "").replace(/\n```$/, ""))
+      .join("\n"),
+    code,
+  );
+});
+
+test("chunkFeishuText repeats the table header in every part", () => {
+  const rows = Array.from({ length: 6 }, (_, index) => `| row${index} | ${index} |`);
+  const text = ["| name | value |", "| --- | --- |", ...rows].join("\n");
+  const chunks = chunkFeishuText(text, 70, { numbered: false });
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.ok(chunk.startsWith("| name | value |\n| --- | --- |\n"));
+  }
+  assert.equal(chunks.map((chunk) => chunk.split("\n").slice(2).join("\n")).join("\n"), rows.join("\n"));
+});
+
+test("chunkFeishuText respects the byte limit of the message format", () => {
+  const text = "飞".repeat(10_000);
+  const chunks = chunkFeishuText(text, 100_000, { format: "card", numbered: false });
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.ok(Buffer.byteLength(chunk, "utf8") <= FEISHU_MAX_BYTES.card);
+  }
+  assert.equal(chunks.join(""), text);
+});
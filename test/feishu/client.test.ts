@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { FeishuClient, resolveRetryDelay } from "../../src/feishu/client.js";
+
+type MockReply = { status: number; body: unknown; headers?: Record<string, string> };
+
+const createFetchMock = (replies: MockReply[]) => {
+  const calls: string[] = [];
+  const fetchMock = async (url: string) => {
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      return {
+        ok: true,
+        json: async () => ({ tenant_access_token: "token", expire: 7200 }),
+      } as Response;
+    }
+    calls.push(url);
+    const reply = replies.shift() ?? { status: 200, body: { code: 0, data: {} } };
+    return {
+      ok: reply.status >= 200 && reply.status < 300,
+      status: reply.status,
+      statusText: String(reply.status),
+      headers: new Headers(reply.headers),
+      text: async () => JSON.stringify(reply.body),
+    } as Response;
+  };
+  return { fetchMock, calls };
+};
+
+const withFetch = async (fetchMock: unknown, run: () => Promise<void>) => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock as typeof fetch;
+  try {
+    await run();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+};
+
+test("resolveRetryDelay honours rate limit headers and backs off exponentially", () => {
+  const base = { baseDelayMs: 100, maxDelayMs: 5000, random: () => 1 };
+  assert.equal(
+    resolveRetryDelay({ ...base, attempt: 1, headers: new Headers({ "x-ogw-ratelimit-reset": "2" }) }),
+    2000,
+  );
+  assert.equal(
+    resolveRetryDelay({ ...base, attempt: 1, headers: new Headers({ "retry-after": "3" }) }),
+    3000,
+  );
+  assert.equal(resolveRetryDelay({ ...base, attempt: 1 }), 100);
+  assert.equal(resolveRetryDelay({ ...base, attempt: 3 }), 400);
+  assert.equal(resolveRetryDelay({ ...base, attempt: 10 }), 5000);
+  assert.equal(resolveRetryDelay({ ...base, attempt: 3, random: () => 0 }), 200);
+});
+
+test("FeishuClient retries rate-limited requests and reports retries", async () => {
+  const { fetchMock, calls } = createFetchMock([
+    { status: 429, body: { code: 99991400, msg: "request trigger frequency limit" } },
+    { status: 200, body: { code: 99991400, msg: "request trigger frequency limit" } },
+    { status: 200, body: { code: 0, data: { message_id: "om_1" } } },
+  ]);
+  const retries: number[] = [];
+  await withFetch(fetchMock, async () => {
+    const client = new FeishuClient({
+      appId: "app-id",
+      appSecret: "app-secret",
+      retry: { baseDelayMs: 1 },
+      onRetry: (info) => retries.push(info.attempt),
+    });
+    const response = await client.request<{ message_id: string }>({
+      method: "POST",
+      path: "/im/v1/messages",
+      body: { text: "hi" },
+    });
+    assert.equal(response.data?.message_id, "om_1");
+    assert.equal(calls.length, 3);
+    assert.deepEqual(retries, [1, 2]);
+  });
+});
+
+test("FeishuClient only retries server errors for idempotent requests", async () => {
+  const { fetchMock, calls } = createFetchMock([
+    { status: 502, body: { msg: "bad gateway" } },
+    { status: 502, body: { msg: "bad gateway" } },
+    { status: 200, body: { code: 0, data: {} } },
+  ]);
+  await withFetch(fetchMock, async () => {
+    const client = new FeishuClient({
+      appId: "app-id",
+      appSecret: "app-secret",
+      retry: { baseDelayMs: 1 },
+    });
+    await assert.rejects(
+      client.request({ method: "POST", path: "/im/v1/messages", body: {} }),
+      /Feishu API error 502/,
+    );
+    assert.equal(calls.length, 1);
+    await client.request({ method: "POST", path: "/im/v1/messages", body: {}, idempotent: true });
+    assert.equal(calls.length, 3);
+  });
+});
+
+test("FeishuClient gives up after the retry limit", async () => {
+  const { fetchMock, calls } = createFetchMock(
+    Array.from({ length: 5 }, () => ({ status: 503, body: { msg: "unavailable" } })),
+  );
+  await withFetch(fetchMock, async () => {
+    const client = new FeishuClient({
+      appId: "app-id",
+      appSecret: "app-secret",
+      retry: { baseDelayMs: 1, maxRetries: 2 },
+    });
+    await assert.rejects(
+      client.request({ method: "GET", path: "/im/v1/chats" }),
+      /Feishu API error 503/,
+    );
+    assert.equal(calls.length, 3);
+  });
+});
@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { MoltbotConfig } from "openclaw/plugin-sdk";
+
+import {
+  isFeishuGroupConfigured,
+  resolveFeishuAllowMentionAll,
+  resolveFeishuGroupAgentId,
+  resolveFeishuGroupSystemPrompt,
+  resolveFeishuIgnoreOtherMentions,
+  resolveFeishuReplyFormat,
+  resolveFeishuReplyInThread,
+  resolveFeishuReplyToMode,
+  resolveFeishuRequireMention,
+  resolveFeishuToolPolicy,
+} from "../../src/feishu/config.js";
+
+const cfg = {
+  channels: {
+    feishu: {
+      appId: "app-id",
+      appSecret: "app-secret",
+      channels: {
+        "*": { toolPolicy: "read-only" },
+        oc_ops: { toolPolicy: "full" },
+        oc_custom: { toolPolicy: { deny: ["exec"] } },
+        oc_typo: { toolPolicy: "readonly" },
+      },
+    },
+  },
+} as unknown as MoltbotConfig;
+
+test("resolveFeishuToolPolicy falls back to the wildcard group", () => {
+  assert.equal(resolveFeishuToolPolicy({ cfg, groupId: "oc_public" })?.allow?.includes("read"), true);
+  assert.equal(resolveFeishuToolPolicy({ cfg, groupId: "oc_ops" }), undefined);
+  assert.deepEqual(resolveFeishuToolPolicy({ cfg, groupId: "oc_custom" }), { deny: ["exec"] });
+});
+
+test("resolveFeishuToolPolicy strips thread suffixes and fails closed on unknown presets", () => {
+  assert.equal(resolveFeishuToolPolicy({ cfg, groupId: "chat:oc_ops:thread:om_1" }), undefined);
+  assert.deepEqual(resolveFeishuToolPolicy({ cfg, groupId: "oc_typo" }), { deny: ["*"] });
+});
+
+test("per-group agent, prompt and reply settings fall back field by field", () => {
+  const groupCfg = {
+    channels: {
+      feishu: {
+        appId: "app-id",
+        appSecret: "app-secret",
+        replyToMode: "first",
+        channels: {
+          "*": { language: "zh-CN" },
+          oc_finance: { agentId: "finance", systemPrompt: "Amounts are in CNY.", replyToMode: "all" },
+          oc_eng: { agentId: "eng", language: "English" },
+        },
+      },
+    },
+  } as unknown as MoltbotConfig;
+
+  assert.equal(resolveFeishuGroupAgentId({ cfg: groupCfg, groupId: "oc_finance" }), "finance");
+  assert.equal(resolveFeishuGroupAgentId({ cfg: groupCfg, groupId: "oc_other" }), undefined);
+  assert.equal(
+    resolveFeishuGroupSystemPrompt({ cfg: groupCfg, groupId: "oc_finance" }),
+    "Amounts are in CNY.\n\nAlways reply in zh-CN unless the user explicitly asks otherwise.",
+  );
+  assert.equal(
+    resolveFeishuGroupSystemPrompt({ cfg: groupCfg, groupId: "oc_eng" }),
+    "Always reply in English unless the user explicitly asks otherwise.",
+  );
+  assert.equal(resolveFeishuGroupSystemPrompt({ cfg: groupCfg }), undefined);
+  assert.equal(resolveFeishuReplyToMode({ cfg: groupCfg, groupId: "oc_finance" }), "all");
+  assert.equal(resolveFeishuReplyToMode({ cfg: groupCfg, groupId: "oc_eng" }), "first");
+  assert.equal(resolveFeishuReplyToMode({ cfg: groupCfg }), "first");
+});
+
+test("partial group entries inherit the newer settings from channels[\"*\"]", () => {
+  const groupCfg = {
+    channels: {
+      feishu: {
+        appId: "app-id",
+        appSecret: "app-secret",
+        replyFormat: "text",
+        channels: {
+          "*": {
+            replyFormat: "card",
+            replyInThread: true,
+            allowMentionAll: true,
+            requireMention: true,
+            ignoreOtherMentions: false,
+            toolPolicy: "read-only",
+          },
+          oc_ops: { requireMention: false },
+        },
+      },
+    },
+  } as unknown as MoltbotConfig;
+
+  // 话题会话的群 ID 带有后缀，按所在群读取配置
+  for (const groupId of ["oc_ops", "chat:oc_ops", "oc_ops:thread:om_root"]) {
+    const params = { cfg: groupCfg, groupId };
+    assert.equal(resolveFeishuRequireMention(params), false);
+    assert.equal(resolveFeishuReplyFormat(params), "card");
+    assert.equal(resolveFeishuReplyInThread(params), true);
+    assert.equal(resolveFeishuAllowMentionAll(params), true);
+    // 原有的配置项不读取 "*"，未设置时使用账户配置
+    assert.equal(resolveFeishuIgnoreOtherMentions(params), true);
+    assert.equal(resolveFeishuToolPolicy(params), undefined);
+    assert.equal(isFeishuGroupConfigured(params), true);
+  }
+  assert.equal(resolveFeishuRequireMention({ cfg: groupCfg, groupId: "oc_other" }), true);
+  assert.equal(isFeishuGroupConfigured({ cfg: groupCfg, groupId: "oc_other" }), false);
+  assert.equal(isFeishuGroupConfigured({ cfg: groupCfg, groupId: "*" }), false);
+  // 私聊不读取 channels
+  assert.equal(resolveFeishuReplyFormat({ cfg: groupCfg }), "text");
+});
+
+test("a group entry replaces channels[\"*\"] for the original mention and tool settings", () => {
+  const groupCfg = {
+    channels: {
+      feishu: {
+        appId: "app-id",
+        appSecret: "app-secret",
+        requireMention: false,
+        channels: {
+          "*": { requireMention: true, ignoreOtherMentions: false, toolPolicy: "none" },
+          oc_finance: { agentId: "finance" },
+        },
+      },
+    },
+  } as unknown as MoltbotConfig;
+
+  const params = { cfg: groupCfg, groupId: "oc_finance" };
+  assert.equal(resolveFeishuRequireMention(params), false);
+  assert.equal(resolveFeishuIgnoreOtherMentions(params), true);
+  assert.equal(resolveFeishuToolPolicy(params), undefined);
+  const other = { cfg: groupCfg, groupId: "oc_other" };
+  assert.equal(resolveFeishuRequireMention(other), true);
+  assert.equal(resolveFeishuIgnoreOtherMentions(other), false);
+  assert.deepEqual(resolveFeishuToolPolicy(other), { deny: ["*"] });
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { parseFeishuMessageContent } from "../../src/feishu/content.js";
+
+test("parseFeishuMessageContent reads text messages", () => {
+  const parsed = parseFeishuMessageContent({
+    messageType: "text",
+    content: JSON.stringify({ text: "hello" }),
+  });
+  assert.deepEqual(parsed, { text: "hello", resources: [] });
+});
+
+test("parseFeishuMessageContent replaces mention placeholders in text", () => {
+  const parsed = parseFeishuMessageContent({
+    messageType: "text",
+    content: JSON.stringify({ text: "@_user_1 ping @_user_2" }),
+    mentions: [
+      { key: "@_user_1", name: "Bot", id: { open_id: "ou_bot" } },
+      { key: "@_user_2", name: "Alice", id: { open_id: "ou_alice" } },
+    ],
+    botOpenId: "ou_bot",
+  });
+  assert.deepEqual(parsed, { text: "ping @Alice", resources: [] });
+});
+
+test("parseFeishuMessageContent extracts image and file resources", () => {
+  assert.deepEqual(
+    parseFeishuMessageContent({
+      messageType: "image",
+      content: JSON.stringify({ image_key: "img_v2_1" }),
+    }),
+    { text: "[Feishu image]", resources: [{ type: "image", key: "img_v2_1" }] },
+  );
+  assert.deepEqual(
+    parseFeishuMessageContent({
+      messageType: "file",
+      content: JSON.stringify({ file_key: "file_v2_1", file_name: "report.pdf" }),
+    }),
+    {
+      text: "[Feishu file] report.pdf",
+      resources: [{ type: "file", key: "file_v2_1", fileName: "report.pdf" }],
+    },
+  );
+  assert.deepEqual(
+    parseFeishuMessageContent({
+      messageType: "audio",
+      content: JSON.stringify({ file_key: "file_v2_2", duration: 2000 }),
+    }),
+    { text: "[Feishu audio]", resources: [{ type: "audio", key: "file_v2_2" }] },
+  );
+});
+
+test("parseFeishuMessageContent falls back to raw content for unknown types", () => {
+  const parsed = parseFeishuMessageContent({
+    messageType: "share_chat",
+    content: JSON.stringify({ chat_id: "oc_1" }),
+  });
+  assert.deepEqual(parsed, { text: '[Feishu share_chat] {"chat_id":"oc_1"}', resources: [] });
+});
+
+test("parseFeishuMessageContent converts post messages to markdown", () => {
+  const parsed = parseFeishuMessageContent({
+    messageType: "post",
+    content: JSON.stringify({
+      title: "",
+      content: [
+        [
+          { tag: "at", user_id: "@_user_1" },
+          { tag: "text", text: " see " },
+          { tag: "a", text: "docs", href: "https://example.com" },
+        ],
+        [{ tag: "img", image_key: "img_v2_1" }],
+      ],
+    }),
+    mentions: [{ key: "@_user_1", name: "Bot" }],
+  });
+  assert.deepEqual(parsed, {
+    text: "@Bot see [docs](https://example.com)\n[Feishu image]",
+    resources: [{ type: "image", key: "img_v2_1" }],
+  });
+});
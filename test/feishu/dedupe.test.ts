@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+
+import { extractFeishuEventKeys, FeishuDedupeStore } from "../../src/feishu/dedupe.js";
+
+test("extractFeishuEventKeys reads event_id and message_id", () => {
+  assert.deepEqual(
+    extractFeishuEventKeys({
+      header: { event_id: "ev_1" },
+      event: { message: { message_id: "om_1" } },
+    }),
+    ["event:ev_1", "message:om_1"],
+  );
+  assert.deepEqual(extractFeishuEventKeys({ uuid: "ev_2", event: {} }), ["event:ev_2"]);
+});
+
+test("FeishuDedupeStore drops repeated event or message ids", () => {
+  const store = new FeishuDedupeStore();
+  assert.equal(store.check(["event:ev_1", "message:om_1"]), false);
+  assert.equal(store.check(["event:ev_1", "message:om_1"]), true);
+  // 同一条消息以新的事件重推
+  assert.equal(store.check(["event:ev_2", "message:om_1"]), true);
+  assert.equal(store.check(["event:ev_3", "message:om_2"]), false);
+});
+
+test("FeishuDedupeStore expires entries and bounds its size", () => {
+  const store = new FeishuDedupeStore({ ttlMs: 1000, maxEntries: 2 });
+  assert.equal(store.check(["a"], 0), false);
+  assert.equal(store.check(["a"], 500), true);
+  assert.equal(store.check(["a"], 1500), false);
+  store.check(["b"], 1500);
+  store.check(["c"], 1500);
+  assert.equal(store.size, 2);
+  assert.equal(store.check(["a"], 1500), false);
+});
+
+test("FeishuDedupeStore prunes only the expired head of the entries", () => {
+  const store = new FeishuDedupeStore({ ttlMs: 1000 });
+  store.check(["a"], 0);
+  store.check(["b"], 400);
+  store.check(["c"], 800);
+  store.check(["d"], 1200);
+  assert.equal(store.size, 3);
+  assert.equal(store.check(["b"], 1200), true);
+  assert.equal(store.check(["a"], 1200), false);
+});
+
+test("FeishuDedupeStore persists entries to disk", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-dedupe-"));
+  const filePath = path.join(dir, "nested", "dedupe.json");
+  try {
+    const store = new FeishuDedupeStore({ filePath });
+    store.check(["event:ev_1"]);
+    await store.flush();
+    const restored = new FeishuDedupeStore({ filePath });
+    assert.equal(restored.check(["event:ev_1"]), true);
+    assert.equal(restored.check(["event:ev_2"]), false);
+    await restored.flush();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+
+import { FeishuClient } from "../../src/feishu/client.js";
+import { detectFeishuUserIdType, FeishuUserDirectory } from "../../src/feishu/directory.js";
+
+const mockContactFetch = (handler: (url: URL) => { status?: number; body: unknown }) => {
+  const lookups: string[] = [];
+  const fetchMock = (async (url: string) => {
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      return {
+        ok: true,
+        json: async () => ({ tenant_access_token: "token", expire: 3600 }),
+      } as Response;
+    }
+    const parsed = new URL(url);
+    lookups.push(`${parsed.pathname.split("/").pop()}:${parsed.searchParams.get("user_id_type")}`);
+    const { status = 200, body } = handler(parsed);
+    return {
+      ok: status < 400,
+      status,
+      headers: new Headers(),
+      text: async () => JSON.stringify(body),
+    } as Response;
+  }) as typeof fetch;
+  return { fetchMock, lookups };
+};
+
+const alice = {
+  open_id: "ou_alice",
+  user_id: "u_alice",
+  name: "Alice",
+  department_ids: ["od_1"],
+  avatar: { avatar_72: "https://example.com/72.png", avatar_240: "https://example.com/240.png" },
+};
+
+test("detectFeishuUserIdType reads the id prefix", () => {
+  assert.equal(detectFeishuUserIdType("ou_1"), "open_id");
+  assert.equal(detectFeishuUserIdType("on_1"), "union_id");
+  assert.equal(detectFeishuUserIdType("a1b2c3"), "user_id");
+});
+
+test("FeishuUserDirectory caches profiles under every known id", async () => {
+  const { fetchMock, lookups } = mockContactFetch(() => ({
+    body: { code: 0, data: { user: alice } },
+  }));
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock;
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const directory = new FeishuUserDirectory();
+    const [first, second] = await Promise.all([
+      directory.resolve(client, "ou_alice"),
+      directory.resolve(client, "ou_alice"),
+    ]);
+    assert.deepEqual(first, {
+      openId: "ou_alice",
+      userId: "u_alice",
+      unionId: undefined,
+      name: "Alice",
+      enName: undefined,
+      departmentIds: ["od_1"],
+      avatarUrl: "https://example.com/240.png",
+    });
+    assert.equal(second, first);
+    assert.equal((await directory.resolve(client, "u_alice"))?.name, "Alice");
+    assert.deepEqual(lookups, ["ou_alice:open_id"]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("FeishuUserDirectory remembers missing users and permission errors", async () => {
+  const { fetchMock, lookups } = mockContactFetch((url) => {
+    if (url.pathname.endsWith("/ou_bob")) return { body: { code: 0, data: {} } };
+    if (url.pathname.endsWith("/ou_dave")) return { status: 503, body: { code: 0, msg: "busy" } };
+    return { status: 400, body: { code: 99991672, msg: "no permission" } };
+  });
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock;
+  try {
+    const client = new FeishuClient({
+      appId: "app-id",
+      appSecret: "app-secret",
+      retry: { maxRetries: 0 },
+    });
+    const directory = new FeishuUserDirectory();
+    assert.equal(await directory.resolve(client, "ou_bob"), undefined);
+    assert.equal(await directory.lookup(client, "ou_bob"), null);
+    assert.equal(lookups.length, 1);
+    // 缺少权限的错误在 missTtlMs 内从缓存抛出，不再重复请求
+    assert.equal(await directory.resolve(client, "ou_carol"), undefined);
+    await assert.rejects(directory.lookup(client, "ou_carol"), /99991672/);
+    assert.equal(lookups.length, 2);
+    // 5xx 等临时错误不缓存
+    assert.equal(await directory.resolve(client, "ou_dave"), undefined);
+    await assert.rejects(directory.lookup(client, "ou_dave"), /503/);
+    assert.equal(lookups.length, 4);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("FeishuUserDirectory resolves batches through the cache", async () => {
+  const queried: string[][] = [];
+  const { fetchMock } = mockContactFetch((url) => {
+    queried.push(url.searchParams.getAll("user_ids"));
+    if (url.searchParams.getAll("user_ids").includes("ou_fail")) {
+      return { status: 503, body: { code: 0, msg: "busy" } };
+    }
+    return { body: { code: 0, data: { items: [alice] } } };
+  });
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock;
+  const warnings: string[] = [];
+  try {
+    const client = new FeishuClient({
+      appId: "app-id",
+      appSecret: "app-secret",
+      retry: { maxRetries: 0 },
+    });
+    const directory = new FeishuUserDirectory({
+      log: { warn: (message) => warnings.push(message) },
+    });
+    const first = await directory.resolveMany(client, ["ou_alice", "ou_ghost", "ou_alice"]);
+    assert.deepEqual(Array.from(first.keys()), ["ou_alice"]);
+    // 已缓存的用户和未返回的用户都不再请求
+    const second = await directory.resolveMany(client, ["ou_alice", "ou_ghost", "u_alice"]);
+    assert.deepEqual(Array.from(second.keys()), ["ou_alice", "u_alice"]);
+    assert.deepEqual(queried, [["ou_alice", "ou_ghost"]]);
+    // 临时的接口错误记录日志，不写入缓存
+    assert.equal((await directory.resolveMany(client, ["ou_fail"])).size, 0);
+    assert.equal(directory.get("ou_fail"), undefined);
+    assert.match(warnings[0], /503/);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("FeishuUserDirectory expires entries and evicts the least recently used", async () => {
+  const directory = new FeishuUserDirectory({ ttlMs: 1000, maxEntries: 2 });
+  const { fetchMock } = mockContactFetch((url) => {
+    const id = url.pathname.split("/").pop();
+    return { body: { code: 0, data: { user: { open_id: id, name: id } } } };
+  });
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock;
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    await directory.resolve(client, "ou_a");
+    await directory.resolve(client, "ou_b");
+    directory.get("ou_a");
+    await directory.resolve(client, "ou_c");
+    assert.equal(directory.size, 2);
+    assert.equal(directory.get("ou_b"), undefined);
+    assert.equal(directory.get("ou_a")?.name, "ou_a");
+    assert.equal(directory.get("ou_a", Date.now() + 2000), undefined);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("FeishuUserDirectory persists profiles to disk", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-directory-"));
+  const filePath = path.join(dir, "nested", "users.json");
+  const { fetchMock } = mockContactFetch(() => ({ body: { code: 0, data: { user: alice } } }));
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock;
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const directory = new FeishuUserDirectory({ filePath });
+    await directory.resolve(client, "ou_alice");
+    await directory.flush();
+    const restored = new FeishuUserDirectory({ filePath });
+    assert.equal(restored.get("u_alice")?.name, "Alice");
+    await restored.flush();
+  } finally {
+    globalThis.fetch = originalFetch;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { resolveFeishuDomainInfo } from "../../src/feishu/domain.js";
+
+test("resolveFeishuDomainInfo defaults to Feishu", () => {
+  assert.deepEqual(resolveFeishuDomainInfo({}), {
+    kind: "feishu",
+    label: "Feishu",
+    apiBaseUrl: "https://open.feishu.cn/open-apis",
+    wsBaseUrl: "https://open.feishu.cn",
+    consoleUrl: "https://open.feishu.cn/app",
+    docsUrl: "https://open.feishu.cn/document",
+  });
+});
+
+test("resolveFeishuDomainInfo resolves Lark endpoints", () => {
+  const info = resolveFeishuDomainInfo({ domain: "Lark" });
+  assert.equal(info.kind, "lark");
+  assert.equal(info.label, "Lark");
+  assert.equal(info.apiBaseUrl, "https://open.larksuite.com/open-apis");
+  assert.equal(info.wsBaseUrl, "https://open.larksuite.com");
+  assert.equal(info.consoleUrl, "https://open.larksuite.com/app");
+});
+
+test("resolveFeishuDomainInfo accepts custom domains with or without /open-apis", () => {
+  for (const domain of ["https://open.example.com/open-apis/", "https://open.example.com"]) {
+    const info = resolveFeishuDomainInfo({ domain });
+    assert.equal(info.kind, "custom");
+    assert.equal(info.apiBaseUrl, "https://open.example.com/open-apis");
+    assert.equal(info.wsBaseUrl, "https://open.example.com");
+  }
+});
+
+test("resolveFeishuDomainInfo keeps the legacy baseUrl override", () => {
+  const info = resolveFeishuDomainInfo({
+    domain: "lark",
+    baseUrl: "https://proxy.example.com/open-apis",
+  });
+  assert.equal(info.apiBaseUrl, "https://proxy.example.com/open-apis");
+  assert.equal(info.wsBaseUrl, "https://proxy.example.com");
+  assert.equal(info.consoleUrl, "https://open.larksuite.com/app");
+});
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { FeishuClient } from "../../src/feishu/client.js";
+import { resolveFeishuDomainInfo } from "../../src/feishu/domain.js";
+import { FeishuApiError, formatFeishuError, toFeishuActionError } from "../../src/feishu/errors.js";
+
+test("FeishuClient throws FeishuApiError with status, log id and permission details", async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (url: string) => {
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      return {
+        ok: true,
+        json: async () => ({ tenant_access_token: "token", expire: 7200 }),
+      } as Response;
+    }
+    return {
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      headers: new Headers({ "x-tt-logid": "202601010000abcdef" }),
+      text: async () =>
+        JSON.stringify({
+          code: 99991672,
+          msg: "Access denied. One of the following scopes is required: [im:message]",
+          error: {
+            log_id: "ignored-when-header-present",
+            permission_violations: [{ type: "action_scope_required", subject: "im:message" }],
+          },
+        }),
+    } as Response;
+  }) as typeof fetch;
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const err = await client
+      .request({ method: "GET", path: "/im/v1/messages" })
+      .then(() => null, (error: unknown) => error);
+    assert.ok(err instanceof FeishuApiError);
+    assert.equal(err.status, 400);
+    assert.equal(err.code, 99991672);
+    assert.equal(err.logId, "202601010000abcdef");
+    assert.deepEqual(err.permissionViolations, [
+      { type: "action_scope_required", subject: "im:message" },
+    ]);
+    assert.match(err.message, /^Feishu API error 99991672: Access denied/);
+    assert.match(err.hint ?? "", /missing a required API scope/);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("toFeishuActionError returns a structured result with hints", () => {
+  const err = new FeishuApiError({
+    status: 400,
+    code: 230002,
+    msg: "Bot/User can NOT be out of the chat.",
+    logId: "log-1",
+  });
+  assert.deepEqual(toFeishuActionError(err), {
+    ok: false,
+    error:
+      "Feishu API error 230002: Bot/User can NOT be out of the chat. (The bot is not a member of this chat. Add the bot to the group first.)",
+    code: 230002,
+    logId: "log-1",
+  });
+  assert.equal(
+    formatFeishuError(err),
+    "Feishu API error 230002: Bot/User can NOT be out of the chat. | hint: The bot is not a member of this chat. Add the bot to the group first. | log_id: log-1",
+  );
+});
+
+test("FeishuApiError falls back to the HTTP status without a Feishu code", () => {
+  const err = FeishuApiError.fromResponse({
+    status: 502,
+    statusText: "Bad Gateway",
+    body: {},
+  });
+  assert.equal(err.code, undefined);
+  assert.equal(err.message, "Feishu API error 502: Bad Gateway");
+  assert.equal(toFeishuActionError(err).code, 502);
+});
+
+test("error hints name the configured platform and link its console or docs", () => {
+  const lark = resolveFeishuDomainInfo({ domain: "lark" });
+  const scopeError = new FeishuApiError({ status: 400, code: 99991672, msg: "Access denied" });
+  assert.equal(
+    formatFeishuError(scopeError, lark),
+    "Feishu API error 99991672: Access denied | hint: The app is missing a required API scope. Enable it under Permissions & Scopes in the Lark developer console and publish a new app version. | see: https://open.larksuite.com/app",
+  );
+  assert.equal(toFeishuActionError(scopeError, { domain: lark }).consoleUrl, lark.consoleUrl);
+  const recalled = new FeishuApiError({ status: 400, code: 230110, msg: "recalled" });
+  assert.deepEqual(toFeishuActionError(recalled, { domain: lark }), {
+    ok: false,
+    error: "Feishu API error 230110: recalled (The message has been recalled or deleted.)",
+    code: 230110,
+    docsUrl: "https://open.larksuite.com/document",
+  });
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildFeishuMessageExcerpt,
+  emitFeishuReactionFeedback,
+  formatFeishuReactionFeedback,
+  onFeishuReactionFeedback,
+  type FeishuReactionFeedback,
+} from "../../src/feishu/feedback.js";
+
+const feedback: FeishuReactionFeedback = {
+  accountId: "default",
+  action: "added",
+  messageId: "om_1",
+  emoji: "ThumbsDown",
+  userId: "u_alice",
+  userName: "Alice",
+  sessionKey: "agent:main:feishu:group:oc_1",
+  chatId: "oc_1",
+  excerpt: "The build is green",
+  timestamp: 0,
+};
+
+test("formatFeishuReactionFeedback describes who reacted to which reply", () => {
+  assert.equal(
+    formatFeishuReactionFeedback(feedback),
+    'Feishu reaction: Alice (u_alice) reacted 👎 (ThumbsDown) to your reply "The build is green"',
+  );
+  assert.equal(
+    formatFeishuReactionFeedback({
+      ...feedback,
+      action: "removed",
+      emoji: "JIAYI",
+      userName: undefined,
+      excerpt: undefined,
+    }),
+    "Feishu reaction: u_alice removed JIAYI from your reply",
+  );
+});
+
+test("buildFeishuMessageExcerpt collapses whitespace and truncates", () => {
+  assert.equal(buildFeishuMessageExcerpt("  line one\n\nline two "), "line one line two");
+  assert.equal(buildFeishuMessageExcerpt("a".repeat(100))?.length, 80);
+  assert.equal(buildFeishuMessageExcerpt(""), undefined);
+});
+
+test("emitFeishuReactionFeedback isolates failing hooks", async () => {
+  const received: string[] = [];
+  const warnings: string[] = [];
+  const offFailing = onFeishuReactionFeedback(() => {
+    throw new Error("boom");
+  });
+  const off = onFeishuReactionFeedback((item) => {
+    received.push(item.messageId);
+  });
+  try {
+    await emitFeishuReactionFeedback(feedback, { warn: (message) => warnings.push(message) });
+    off();
+    await emitFeishuReactionFeedback(feedback);
+  } finally {
+    offFailing();
+    off();
+  }
+  assert.deepEqual(received, ["om_1"]);
+  assert.equal(warnings.length, 1);
+});
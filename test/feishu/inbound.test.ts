@@ -0,0 +1,297 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import test from "node:test";
+
+import { setFeishuRuntime } from "../../src/runtime.js";
+import { handleInboundEvent, isFeishuLifecycleEvent } from "../../src/feishu/inbound.js";
+import { resolveFeishuOutboundMediaDir } from "../../src/feishu/media.js";
+import { getChatStore } from "../../src/feishu/state.js";
+
+type Deliver = (payload: { text?: string; mediaUrl?: string }) => Promise<void>;
+type Dispatch = (params: {
+  dispatcher: { deliver: Deliver };
+  replyOptions: {
+    abortSignal: AbortSignal;
+    onPartialReply?: (payload: { text?: string }) => void;
+  };
+}) => Promise<unknown>;
+
+const cfg = {
+  channels: {
+    feishu: {
+      appId: "app",
+      appSecret: "secret",
+      dm: { policy: "open" },
+      deleteRepliesOnRecall: true,
+    },
+  },
+};
+
+const createRuntimeMock = (dispatch: Dispatch) => {
+  const systemEvents: Array<{ text: string; sessionKey: string; contextKey?: string }> = [];
+  const dispatched: string[] = [];
+  const stateDir = mkdtempSync(path.join(os.tmpdir(), "feishu-inbound-"));
+  setFeishuRuntime({
+    state: { resolveStateDir: () => stateDir },
+    system: {
+      enqueueSystemEvent: (text: string, options: { sessionKey: string; contextKey?: string }) =>
+        systemEvents.push({ text, ...options }),
+    },
+    channel: {
+      pairing: { readAllowFromStore: async () => [] },
+      routing: {
+        resolveAgentRoute: (params: { peer: { id: string } }) => ({
+          agentId: "main",
+          sessionKey: `feishu:dm:${params.peer.id}`,
+          mainSessionKey: "main",
+        }),
+      },
+      session: {
+        resolveStorePath: () => path.join(stateDir, "sessions.json"),
+        recordInboundSession: async () => undefined,
+      },
+      reply: {
+        finalizeInboundContext: (ctx: Record<string, unknown>) => ctx,
+        createReplyDispatcherWithTyping: (params: { deliver: Deliver }) => ({
+          dispatcher: { deliver: params.deliver },
+          replyOptions: {},
+          markDispatchIdle: () => undefined,
+        }),
+        dispatchReplyFromConfig: async (
+          params: Parameters<Dispatch>[0] & { ctx: { MessageSid: string } },
+        ) => {
+          dispatched.push(params.ctx.MessageSid);
+          return await dispatch(params);
+        },
+      },
+    },
+  } as never);
+  return { systemEvents, dispatched };
+};
+
+/** 发送消息时可暂停，模拟撤回时仍在发送中的回复 */
+const createFetchMock = () => {
+  const sent: string[] = [];
+  const deleted: string[] = [];
+  /** 按顺序记录发出的消息：msg_type 与内容 */
+  const messages: string[] = [];
+  let hold: Promise<void> | null = null;
+  const fetchMock = async (url: string, init?: RequestInit) => {
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      return { ok: true, json: async () => ({ tenant_access_token: "token", expire: 7200 }) };
+    }
+    if (init?.method === "DELETE") {
+      deleted.push(url.split("/").pop() as string);
+    } else if (url.includes("/im/v1/images")) {
+      return {
+        ok: true,
+        text: async () => JSON.stringify({ code: 0, data: { image_key: "img_1" } }),
+      };
+    } else if (/\/im\/v1\/messages/.test(url)) {
+      if (hold) await hold;
+      const body = JSON.parse(String(init?.body)) as { msg_type: string; content: string };
+      messages.push(`${body.msg_type} ${body.content}`);
+      sent.push(`om_reply_${sent.length + 1}`);
+      return {
+        ok: true,
+        text: async () => JSON.stringify({ code: 0, data: { message_id: sent.at(-1) } }),
+      };
+    }
+    return { ok: true, text: async () => JSON.stringify({ code: 0, data: {} }) };
+  };
+  return {
+    sent,
+    deleted,
+    messages,
+    fetchMock,
+    holdSends: () => {
+      let release = () => {};
+      hold = new Promise((resolve) => {
+        release = resolve;
+      });
+      return () => {
+        hold = null;
+        release();
+      };
+    },
+  };
+};
+
+const messageEvent = (messageId: string) => ({
+  header: { event_id: `ev_${messageId}`, event_type: "im.message.receive_v1" },
+  event: {
+    message: {
+      message_id: messageId,
+      chat_id: "oc_dm",
+      chat_type: "p2p",
+      message_type: "text",
+      content: JSON.stringify({ text: "summarize the report" }),
+    },
+    sender: { sender_id: { open_id: "ou_alice" } },
+  },
+});
+
+const recallEvent = (messageId: string) => ({
+  header: { event_id: `ev_recall_${messageId}`, event_type: "im.message.recalled_v1" },
+  event: { message_id: messageId, chat_id: "oc_dm" },
+});
+
+const handle = (event: Record<string, unknown>, config: object = cfg) =>
+  handleInboundEvent({ cfg: config as never, accountId: "default", event });
+
+const waitFor = async (check: () => boolean) => {
+  for (let i = 0; i < 100 && !check(); i += 1) await sleep(5);
+  assert.ok(check());
+};
+
+test("recall aborts the active run, marks the session and deletes sent replies", async () => {
+  const originalFetch = globalThis.fetch;
+  const { sent, deleted, fetchMock } = createFetchMock();
+  globalThis.fetch = fetchMock as typeof fetch;
+  let signal: AbortSignal | undefined;
+  const { systemEvents } = createRuntimeMock(async ({ dispatcher, replyOptions }) => {
+    signal = replyOptions.abortSignal;
+    await dispatcher.deliver({ text: "first part" });
+    await new Promise((resolve) => signal?.addEventListener("abort", resolve));
+    // 中止后的回复不再发送
+    await dispatcher.deliver({ text: "second part" });
+  });
+  try {
+    const run = handle(messageEvent("om_recall_1"));
+    await waitFor(() => sent.length === 1);
+    await handle(recallEvent("om_recall_1"));
+    await run;
+    assert.equal(signal?.aborted, true);
+    assert.deepEqual(sent, ["om_reply_1"]);
+    assert.deepEqual(deleted, ["om_reply_1"]);
+    assert.deepEqual(systemEvents, [
+      {
+        text: 'Feishu: the user recalled their message "summarize the report" (om_recall_1); disregard it.',
+        sessionKey: "feishu:dm:ou_alice",
+        contextKey: "feishu:recall:om_recall_1",
+      },
+    ]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("replies that land after the recall are deleted once sent", async () => {
+  const originalFetch = globalThis.fetch;
+  const { sent, deleted, fetchMock, holdSends } = createFetchMock();
+  globalThis.fetch = fetchMock as typeof fetch;
+  const release = holdSends();
+  let delivering: Promise<void> | undefined;
+  createRuntimeMock(async ({ dispatcher }) => {
+    delivering = dispatcher.deliver({ text: "in flight" });
+    await delivering;
+  });
+  try {
+    const run = handle(messageEvent("om_recall_2"));
+    await waitFor(() => delivering !== undefined);
+    await handle(recallEvent("om_recall_2"));
+    assert.deepEqual(deleted, []);
+    release();
+    await run;
+    await waitFor(() => deleted.length === 1);
+    assert.deepEqual(deleted, sent);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("recall that arrives before the run starts skips the dispatch", async () => {
+  const originalFetch = globalThis.fetch;
+  const { sent, fetchMock } = createFetchMock();
+  globalThis.fetch = fetchMock as typeof fetch;
+  const { dispatched, systemEvents } = createRuntimeMock(async ({ dispatcher }) => {
+    await dispatcher.deliver({ text: "should not be sent" });
+  });
+  try {
+    await handle(recallEvent("om_recall_3"));
+    await handle(messageEvent("om_recall_3"));
+    assert.deepEqual(dispatched, []);
+    assert.deepEqual(sent, []);
+    assert.deepEqual(systemEvents, []);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("isFeishuLifecycleEvent lets recalls skip the message queue", () => {
+  assert.equal(isFeishuLifecycleEvent(recallEvent("om_1")), true);
+  assert.equal(
+    isFeishuLifecycleEvent({ header: { event_type: "im.message.reaction.created_v1" } }),
+    true,
+  );
+  assert.equal(isFeishuLifecycleEvent(messageEvent("om_1")), false);
+});
+
+test("streamed replies end before media and resume in a new message", async () => {
+  const originalFetch = globalThis.fetch;
+  const { messages, fetchMock } = createFetchMock();
+  globalThis.fetch = fetchMock as typeof fetch;
+  mkdirSync(resolveFeishuOutboundMediaDir(), { recursive: true });
+  const dir = mkdtempSync(path.join(resolveFeishuOutboundMediaDir(), "feishu-inbound-media-"));
+  const imagePath = path.join(dir, "chart.png");
+  writeFileSync(imagePath, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+  createRuntimeMock(async ({ dispatcher, replyOptions }) => {
+    replyOptions.onPartialReply?.({ text: "Here is the chart" });
+    await dispatcher.deliver({ text: "Here is the chart:", mediaUrl: imagePath });
+    replyOptions.onPartialReply?.({ text: "Anything else?" });
+    await dispatcher.deliver({ text: "Anything else?" });
+  });
+  try {
+    const streamingCfg = {
+      channels: { feishu: { ...cfg.channels.feishu, streaming: true } },
+    };
+    await handle(messageEvent("om_stream_media"), streamingCfg);
+    assert.deepEqual(messages, [
+      `text ${JSON.stringify({ text: "Here is the chart:" })}`,
+      `image ${JSON.stringify({ image_key: "img_1" })}`,
+      `text ${JSON.stringify({ text: "Anything else?" })}`,
+    ]);
+  } finally {
+    globalThis.fetch = originalFetch;
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("group messages are recorded only once they pass the group policy", async () => {
+  const originalFetch = globalThis.fetch;
+  const { fetchMock } = createFetchMock();
+  globalThis.fetch = fetchMock as typeof fetch;
+  const { dispatched } = createRuntimeMock(async () => undefined);
+  const groupCfg = {
+    channels: {
+      feishu: {
+        ...cfg.channels.feishu,
+        groupPolicy: "allowlist",
+        channels: { oc_listed: { requireMention: false } },
+      },
+    },
+  };
+  const groupEvent = (messageId: string, chatId: string) => {
+    const event = messageEvent(messageId);
+    return {
+      ...event,
+      event: {
+        ...event.event,
+        message: { ...event.event.message, chat_id: chatId, chat_type: "group" },
+      },
+    };
+  };
+  try {
+    await handle(groupEvent("om_group_1", "oc_unlisted"), groupCfg);
+    await handle(groupEvent("om_group_2", "oc_listed"), groupCfg);
+    const store = getChatStore("default");
+    assert.equal(store.get("oc_unlisted"), undefined);
+    assert.equal(store.get("oc_listed")?.chatId, "oc_listed");
+    assert.deepEqual(dispatched, ["om_group_2"]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
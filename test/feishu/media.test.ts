@@ -0,0 +1,233 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, readdir, readFile, rm, symlink, utimes, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+
+import { FeishuClient } from "../../src/feishu/client.js";
+import {
+  detectFeishuMediaKind,
+  downloadFeishuMessageResource,
+  loadFeishuMedia,
+  pruneFeishuInboundMedia,
+  resolveFeishuInboundMediaDir,
+  resolveFeishuOutboundMediaDir,
+  uploadFeishuMedia,
+} from "../../src/feishu/media.js";
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+test("loadFeishuMedia decodes base64 data urls", async () => {
+  const media = await loadFeishuMedia(`data:image/png;base64,${PNG_BYTES.toString("base64")}`);
+  assert.equal(media.contentType, "image/png");
+  assert.equal(media.fileName, "file.png");
+  assert.deepEqual(media.buffer, PNG_BYTES);
+});
+
+test("loadFeishuMedia enforces maxBytes", async () => {
+  await assert.rejects(
+    loadFeishuMedia(`data:text/plain,${"a".repeat(32)}`, { maxBytes: 16 }),
+    /exceeds limit/,
+  );
+});
+
+test("loadFeishuMedia reads local files from the outbound media dir", async () => {
+  await mkdir(resolveFeishuOutboundMediaDir(), { recursive: true });
+  const dir = await mkdtemp(path.join(resolveFeishuOutboundMediaDir(), "feishu-media-"));
+  try {
+    const filePath = path.join(dir, "report.pdf");
+    await writeFile(filePath, "%PDF-1.4");
+    const media = await loadFeishuMedia(filePath);
+    assert.equal(media.fileName, "report.pdf");
+    assert.deepEqual(detectFeishuMediaKind(media), { kind: "file", fileType: "pdf" });
+    await assert.rejects(loadFeishuMedia(filePath, { maxBytes: 4 }), /exceeds limit/);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("loadFeishuMedia does not allow the rest of the temp dir by default", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "feishu-media-"));
+  const inboundDir = resolveFeishuInboundMediaDir("other-account");
+  const inboundFile = path.join(inboundDir, `media-test-${process.pid}.png`);
+  try {
+    await writeFile(path.join(dir, "chart.png"), PNG_BYTES);
+    await mkdir(inboundDir, { recursive: true });
+    await writeFile(inboundFile, PNG_BYTES);
+    await assert.rejects(loadFeishuMedia(path.join(dir, "chart.png")), /outside the allowed/);
+    await assert.rejects(loadFeishuMedia(inboundFile), /outside the allowed/);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+    await rm(inboundFile, { force: true });
+  }
+});
+
+test("loadFeishuMedia rejects local files outside the allowed roots", async () => {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "feishu-media-"));
+  try {
+    const root = path.join(dir, "workspace");
+    await mkdir(root);
+    const inside = path.join(root, "chart.png");
+    const outside = path.join(dir, "secret.txt");
+    await writeFile(inside, PNG_BYTES);
+    await writeFile(outside, "secret");
+    await symlink(outside, path.join(root, "link.txt"));
+    const media = await loadFeishuMedia(`file://${inside}`, { localRoots: [root] });
+    assert.deepEqual(media.buffer, PNG_BYTES);
+    await assert.rejects(loadFeishuMedia(outside, { localRoots: [root] }), /outside the allowed/);
+    await assert.rejects(
+      loadFeishuMedia(path.join(root, "..", "secret.txt"), { localRoots: [root] }),
+      /outside the allowed/,
+    );
+    // 符号链接按真实路径判断
+    await assert.rejects(
+      loadFeishuMedia(path.join(root, "link.txt"), { localRoots: [root] }),
+      /outside the allowed/,
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("loadFeishuMedia caps streamed downloads without content-length", async () => {
+  const originalFetch = globalThis.fetch;
+  let pulls = 0;
+  globalThis.fetch = (async () =>
+    new Response(
+      new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulls += 1;
+          controller.enqueue(new Uint8Array(8));
+        },
+      }),
+      { headers: { "content-type": "application/octet-stream" } },
+    )) as typeof fetch;
+  try {
+    await assert.rejects(
+      loadFeishuMedia("https://example.com/big.bin", { maxBytes: 20 }),
+      /exceeds limit/,
+    );
+    // 超出上限后立即停止读取
+    assert.ok(pulls <= 4);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("detectFeishuMediaKind maps audio, video and unknown files", () => {
+  const detect = (fileName: string, bytes: number[] = []) =>
+    detectFeishuMediaKind({ buffer: Buffer.from(bytes), fileName });
+  assert.deepEqual(detect("chart", [...PNG_BYTES]), { kind: "image" });
+  assert.deepEqual(detect("voice.opus"), { kind: "audio", fileType: "opus" });
+  assert.deepEqual(detect("clip.mp4"), { kind: "media", fileType: "mp4" });
+  assert.deepEqual(detect("sheet.xlsx"), { kind: "file", fileType: "xls" });
+  assert.deepEqual(detect("notes.txt"), { kind: "file", fileType: "stream" });
+});
+
+test("uploadFeishuMedia uploads images as multipart form", async () => {
+  const calls: Array<{ url: string; init?: RequestInit }> = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    calls.push({ url, init });
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      return {
+        ok: true,
+        json: async () => ({ tenant_access_token: "token", expire: 3600 }),
+      } as Response;
+    }
+    return {
+      ok: true,
+      text: async () => JSON.stringify({ code: 0, data: { image_key: "img_v2_uploaded" } }),
+    } as Response;
+  }) as typeof fetch;
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const uploaded = await uploadFeishuMedia({
+      client,
+      mediaUrl: `data:image/png;base64,${PNG_BYTES.toString("base64")}`,
+    });
+    assert.deepEqual(uploaded, { kind: "image", key: "img_v2_uploaded" });
+    const uploadCall = calls.find((call) => call.url.includes("/im/v1/images"));
+    assert.ok(uploadCall);
+    const form = uploadCall.init?.body as FormData;
+    assert.ok(form instanceof FormData);
+    assert.equal(form.get("image_type"), "message");
+    const headers = uploadCall.init?.headers as Record<string, string>;
+    assert.equal(headers["Content-Type"], undefined);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("downloadFeishuMessageResource saves message resources locally", async () => {
+  const calls: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (url: string) => {
+    calls.push(url);
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      return {
+        ok: true,
+        json: async () => ({ tenant_access_token: "token", expire: 3600 }),
+      } as Response;
+    }
+    return new Response(PNG_BYTES, {
+      status: 200,
+      headers: { "content-type": "application/octet-stream" },
+    });
+  }) as typeof fetch;
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const media = await downloadFeishuMessageResource({
+      client,
+      accountId: "test",
+      messageId: "om_1",
+      resource: { type: "image", key: "img_v2_1" },
+    });
+    assert.ok(calls.some((url) => url.includes("/im/v1/messages/om_1/resources/img_v2_1?type=image")));
+    assert.equal(media.contentType, "image/png");
+    assert.ok(media.path.endsWith(".png"));
+    assert.deepEqual(await readFile(media.path), PNG_BYTES);
+    await rm(media.path, { force: true });
+
+    await assert.rejects(
+      downloadFeishuMessageResource({
+        client,
+        accountId: "test",
+        messageId: "om_2",
+        resource: { type: "file", key: "file_v2_1" },
+        maxBytes: 4,
+      }),
+      /exceeds limit/,
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("pruneFeishuInboundMedia drops expired files and the oldest over the size cap", async () => {
+  const accountId = `prune-test-${process.pid}`;
+  const dir = resolveFeishuInboundMediaDir(accountId);
+  const now = Date.now();
+  const hour = 60 * 60 * 1000;
+  const files = [
+    { name: "expired.png", age: 30 * hour },
+    { name: "old.png", age: 3 * hour },
+    { name: "older.png", age: 5 * hour },
+    { name: "fresh.png", age: 0 },
+  ];
+  try {
+    await mkdir(dir, { recursive: true });
+    for (const file of files) {
+      const filePath = path.join(dir, file.name);
+      await writeFile(filePath, Buffer.alloc(100));
+      const time = new Date(now - file.age);
+      await utimes(filePath, time, time);
+    }
+    const removed = await pruneFeishuInboundMedia({ accountId, maxTotalBytes: 150, now });
+    assert.equal(removed, 3);
+    // 最近保存的文件即使超出上限也保留
+    assert.deepEqual(await readdir(dir), ["fresh.png"]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { FeishuClient } from "../../src/feishu/client.js";
+import { buildFeishuMessageBody } from "../../src/feishu/outbound.js";
+import {
+  applyFeishuOutboundMentions,
+  buildFeishuMentionNames,
+  fetchFeishuBotIdentity,
+  isFeishuBotMentioned,
+  replaceFeishuMentionKeys,
+} from "../../src/feishu/mentions.js";
+
+const botMention = { key: "@_user_1", name: "Helper", id: { open_id: "ou_bot" } };
+const humanMention = { key: "@_user_2", name: "Helper Li", id: { open_id: "ou_li" } };
+
+test("isFeishuBotMentioned matches the bot open_id exactly", () => {
+  assert.equal(
+    isFeishuBotMentioned({ mentions: [humanMention], botOpenId: "ou_bot", botName: "Helper" }),
+    false,
+  );
+  assert.equal(
+    isFeishuBotMentioned({ mentions: [humanMention, botMention], botOpenId: "ou_bot" }),
+    true,
+  );
+});
+
+test("isFeishuBotMentioned falls back to the exact configured name", () => {
+  assert.equal(isFeishuBotMentioned({ mentions: [humanMention], botName: "helper" }), false);
+  assert.equal(isFeishuBotMentioned({ mentions: [botMention], botName: "helper" }), true);
+  assert.equal(isFeishuBotMentioned({ mentions: [humanMention] }), true);
+});
+
+test("replaceFeishuMentionKeys strips the bot and names other users", () => {
+  const names = buildFeishuMentionNames([botMention, humanMention], { botOpenId: "ou_bot" });
+  assert.equal(
+    replaceFeishuMentionKeys("@_user_1 ask @_user_2 and @_all about @_user_9", names),
+    "ask @Helper Li and @everyone about @_user_9",
+  );
+});
+
+test("fetchFeishuBotIdentity reads the top-level bot field", async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (url: string) => {
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      return {
+        ok: true,
+        json: async () => ({ tenant_access_token: "token", expire: 3600 }),
+      } as Response;
+    }
+    assert.ok(url.endsWith("/bot/v3/info"));
+    return {
+      ok: true,
+      text: async () =>
+        JSON.stringify({ code: 0, bot: { open_id: "ou_bot", app_name: "Helper" } }),
+    } as Response;
+  }) as typeof fetch;
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    assert.deepEqual(await fetchFeishuBotIdentity(client), { openId: "ou_bot", name: "Helper" });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+const members = [
+  { id: "ou_zhang", name: "张三" },
+  { id: "ou_al", name: "Al" },
+  { id: "ou_alice", name: "Alice Wang" },
+];
+
+test("applyFeishuOutboundMentions converts names, ids and @all into at tags", async () => {
+  let lookups = 0;
+  const text = await applyFeishuOutboundMentions(
+    "@张三你好，请 @alice wang 和 @Alex 看下，@user:ou_oncall 负责，@all 注意 `@Al` mail@Al.com",
+    {
+      allowMentionAll: true,
+      resolveMembers: async () => {
+        lookups += 1;
+        return members;
+      },
+    },
+  );
+  assert.equal(
+    text,
+    '<at user_id="ou_zhang">张三</at>你好，请 <at user_id="ou_alice">Alice Wang</at> 和 @Alex 看下，' +
+      '<at user_id="ou_oncall"></at> 负责，<at user_id="all">所有人</at> 注意 `@Al` mail@Al.com',
+  );
+  assert.equal(lookups, 1);
+});
+
+test("applyFeishuOutboundMentions skips member lookup and honours allowMentionAll", async () => {
+  const text = await applyFeishuOutboundMentions("@all ping @user:ou_1", {
+    allowMentionAll: false,
+    resolveMembers: async () => {
+      throw new Error("should not be called");
+    },
+  });
+  assert.equal(text, '@all ping <at user_id="ou_1"></at>');
+});
+
+test("buildFeishuMessageBody renders at tags for post and card formats", () => {
+  const tagged = 'ping <at user_id="ou_1">Alice</at>';
+  const post = JSON.parse(buildFeishuMessageBody(tagged, "post").content);
+  assert.deepEqual(post.zh_cn.content[0], [
+    { tag: "text", text: "ping " },
+    { tag: "at", user_id: "ou_1", user_name: "Alice" },
+  ]);
+  const card = JSON.parse(buildFeishuMessageBody(tagged, "card").content);
+  assert.equal(card.body.elements[0].content, "ping <at id=ou_1></at>");
+});
+
+test("applyFeishuOutboundMentions strips raw @all tags unless allowed", async () => {
+  const raw = 'hi <at user_id="all">所有人</at> and <at id=all></at> `<at user_id="all"></at>`';
+  assert.equal(
+    await applyFeishuOutboundMentions(raw),
+    "hi @everyone and @everyone `@everyone`",
+  );
+  assert.equal(await applyFeishuOutboundMentions(raw, { allowMentionAll: true }), raw);
+});
@@ -2,7 +2,18 @@ import assert from "node:assert/strict";
 import test from "node:test";
 
 import { FeishuClient } from "../../src/feishu/client.js";
-import { normalizeFeishuTarget, sendFeishuText } from "../../src/feishu/outbound.js";
+import { FeishuUserDirectory } from "../../src/feishu/directory.js";
+import { FeishuApiError } from "../../src/feishu/errors.js";
+import {
+  editFeishuMessage,
+  fetchFeishuMember,
+  listFeishuPins,
+  listFeishuReactions,
+  normalizeFeishuTarget,
+  readFeishuMessages,
+  sendFeishuMedia,
+  sendFeishuText,
+} from "../../src/feishu/outbound.js";
 
 type FetchCall = {
   url: string;
@@ -73,3 +84,411 @@ test("sendFeishuText posts to messages endpoint", async () => {
     globalThis.fetch = originalFetch;
   }
 });
+
+test("sendFeishuText renders markdown into an interactive card", async () => {
+  const { fetchMock, calls } = createFetchMock();
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock as typeof fetch;
+  try {
+    const client = new FeishuClient({
+      appId: "app-id",
+      appSecret: "app-secret",
+    });
+    await sendFeishuText({
+      client,
+      to: "chat:oc_abc",
+      text: "# Title\n\n- item\n\n```ts\nconst a = 1;\n```",
+      format: "card",
+    });
+    const messageCall = calls[calls.length - 1];
+    const body = JSON.parse(String(messageCall.init?.body));
+    assert.equal(body.msg_type, "interactive");
+    const card = JSON.parse(body.content);
+    assert.equal(card.body.elements[0].tag, "markdown");
+    assert.equal(card.body.elements[0].content, "# Title\n\n- item\n\n```ts\nconst a = 1;\n```");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("sendFeishuText replies inside a thread when replyInThread is set", async () => {
+  const { fetchMock, calls } = createFetchMock();
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock as typeof fetch;
+  try {
+    const client = new FeishuClient({
+      appId: "app-id",
+      appSecret: "app-secret",
+    });
+    await sendFeishuText({
+      client,
+      to: "chat:oc_abc",
+      text: "in thread",
+      replyToId: "om_root",
+      replyInThread: true,
+    });
+    await sendFeishuText({ client, to: "chat:oc_abc", text: "plain", replyToId: "om_root" });
+    const [threadCall, plainCall] = calls.filter((call) => call.url.includes("/reply"));
+    assert.ok(threadCall.url.includes("/im/v1/messages/om_root/reply"));
+    assert.equal(JSON.parse(String(threadCall.init?.body)).reply_in_thread, true);
+    assert.equal(JSON.parse(String(plainCall.init?.body)).reply_in_thread, undefined);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("sendFeishuText never forwards raw @all tags unless allowed", async () => {
+  const { fetchMock, calls } = createFetchMock();
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock as typeof fetch;
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const text = 'ping <at user_id="all">所有人</at> <at id=all></at>';
+    for (const format of ["text", "post", "card"] as const) {
+      await sendFeishuText({ client, to: "chat:oc_abc", text, format });
+      const body = JSON.parse(String(calls[calls.length - 1].init?.body));
+      assert.doesNotMatch(body.content, /\ball\b/, format);
+      assert.match(body.content, /@everyone/, format);
+    }
+    await sendFeishuText({
+      client,
+      to: "chat:oc_abc",
+      text,
+      format: "card",
+      mentions: { allowMentionAll: true },
+    });
+    const allowed = JSON.parse(String(calls[calls.length - 1].init?.body));
+    assert.match(allowed.content, /<at id=all><\/at>/);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("editFeishuMessage patches cards in place", async () => {
+  const { fetchMock, calls } = createFetchMock();
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock as typeof fetch;
+  try {
+    const client = new FeishuClient({
+      appId: "app-id",
+      appSecret: "app-secret",
+    });
+    await editFeishuMessage({ client, messageId: "om_1", text: "**done**", format: "card" });
+    await editFeishuMessage({ client, messageId: "om_2", text: "done", format: "text" });
+    const [cardCall, textCall] = calls.filter((call) => call.url.includes("/im/v1/messages/"));
+    assert.equal(cardCall.init?.method, "PATCH");
+    assert.equal(JSON.parse(String(cardCall.init?.body)).msg_type, undefined);
+    assert.equal(textCall.init?.method, "PUT");
+    assert.equal(JSON.parse(String(textCall.init?.body)).msg_type, "text");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("editFeishuMessage follows the msg_type of the original message", async () => {
+  const calls: FetchCall[] = [];
+  const msgTypes: Record<string, string> = {
+    om_card: "interactive",
+    om_post: "post",
+    om_img: "image",
+  };
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (url: string, init?: RequestInit) => {
+    calls.push({ url, init });
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      return { ok: true, json: async () => ({ tenant_access_token: "token", expire: 3600 }) };
+    }
+    const messageId = url.split("/").pop() as string;
+    const data = init?.method === "GET" ? { items: [{ msg_type: msgTypes[messageId] }] } : {};
+    return { ok: true, text: async () => JSON.stringify({ code: 0, data }) };
+  }) as typeof fetch;
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    await editFeishuMessage({ client, messageId: "om_card", text: "done" });
+    await editFeishuMessage({ client, messageId: "om_post", text: "done" });
+    await assert.rejects(
+      editFeishuMessage({ client, messageId: "om_img", text: "done" }),
+      /cannot be edited \(msg_type: image\)/,
+    );
+    const edits = calls.filter(
+      (call) => call.init?.method === "PATCH" || call.init?.method === "PUT",
+    );
+    assert.deepEqual(
+      edits.map((call) => `${call.init?.method} ${call.url.split("/").pop()}`),
+      ["PATCH om_card", "PUT om_post"],
+    );
+    assert.equal(JSON.parse(String(edits[1].init?.body)).msg_type, "post");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("sendFeishuMedia merges text and image into one post", async () => {
+  const { fetchMock, calls } = createFetchMock();
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock as typeof fetch;
+  try {
+    const client = new FeishuClient({
+      appId: "app-id",
+      appSecret: "app-secret",
+    });
+    await sendFeishuMedia({
+      client,
+      to: "chat:oc_abc",
+      text: "**Weekly** report",
+      mediaUrl: "feishu:image_key:img_v2_abc",
+      format: "post",
+    });
+    const messageCall = calls[calls.length - 1];
+    const body = JSON.parse(String(messageCall.init?.body));
+    assert.equal(body.msg_type, "post");
+    assert.deepEqual(JSON.parse(body.content).zh_cn.content, [
+      [
+        { tag: "text", text: "Weekly", style: ["bold"] },
+        { tag: "text", text: " report" },
+      ],
+      [{ tag: "img", image_key: "img_v2_abc" }],
+    ]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("readFeishuMessages pages newest first and returns a cursor", async () => {
+  const pageSizes: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (async (url: string) => {
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      return {
+        ok: true,
+        json: async () => ({ tenant_access_token: "token", expire: 3600 }),
+      } as Response;
+    }
+    const query = new URL(url).searchParams;
+    pageSizes.push(query.get("page_size") ?? "");
+    assert.equal(query.get("sort_type"), "ByCreateTimeDesc");
+    assert.equal(query.get("start_time"), "1767225600");
+    const page = query.get("page_token") === "p2" ? 2 : 1;
+    const size = Number(query.get("page_size"));
+    const items = Array.from({ length: size }, (_, index) => ({
+      message_id: `om_${page}_${index}`,
+      msg_type: "text",
+      create_time: "1767225600000",
+      sender: { id: "ou_1", sender_type: "user" },
+      body: { content: JSON.stringify({ text: `message ${page}-${index}` }) },
+    }));
+    return {
+      ok: true,
+      text: async () =>
+        JSON.stringify({
+          code: 0,
+          data: { items, has_more: true, page_token: page === 1 ? "p2" : "p3" },
+        }),
+    } as Response;
+  }) as typeof fetch;
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const result = await readFeishuMessages({
+      client,
+      chatId: "oc_abc",
+      limit: 70,
+      startTime: "2026-01-01T00:00:00Z",
+    });
+    assert.deepEqual(pageSizes, ["50", "20"]);
+    assert.equal(result.messages.length, 70);
+    assert.equal(result.hasMore, true);
+    assert.equal(result.cursor, "p3");
+    assert.deepEqual(result.messages[0], {
+      id: "om_1_0",
+      time: "2026-01-01T00:00:00.000Z",
+      sender: { id: "ou_1", type: "user" },
+      type: "text",
+      text: "message 1-0",
+    });
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+const createJsonFetch = (handler: (url: URL) => { status?: number; body: unknown }) =>
+  (async (url: string) => {
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      return {
+        ok: true,
+        json: async () => ({ tenant_access_token: "token", expire: 3600 }),
+      } as Response;
+    }
+    const { status = 200, body } = handler(new URL(url));
+    return {
+      ok: status < 400,
+      status,
+      headers: new Headers(),
+      text: async () => JSON.stringify(body),
+    } as Response;
+  }) as typeof fetch;
+
+test("listFeishuReactions aggregates by emoji and resolves user names", async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = createJsonFetch((url) => {
+    if (url.pathname.endsWith("/contact/v3/users/batch")) {
+      assert.deepEqual(url.searchParams.getAll("user_ids"), ["ou_1", "ou_2"]);
+      return {
+        body: { code: 0, data: { items: [{ open_id: "ou_1", name: "Alice" }] } },
+      };
+    }
+    const reaction = (emoji: string, id: string, type = "user") => ({
+      reaction_type: { emoji_type: emoji },
+      operator: { operator_id: id, operator_type: type },
+    });
+    if (url.searchParams.get("page_token") === "p2") {
+      return {
+        body: { code: 0, data: { items: [reaction("OK", "ou_2")], has_more: false } },
+      };
+    }
+    return {
+      body: {
+        code: 0,
+        data: {
+          items: [reaction("OK", "ou_1"), reaction("THUMBSUP", "cli_bot", "app")],
+          has_more: true,
+          page_token: "p2",
+        },
+      },
+    };
+  });
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const result = await listFeishuReactions({
+      client,
+      directory: new FeishuUserDirectory(),
+      messageId: "om_1",
+    });
+    assert.equal(result.total, 3);
+    assert.deepEqual(result.reactions, [
+      {
+        emoji: "OK",
+        count: 2,
+        users: [
+          { id: "ou_1", name: "Alice", type: "user" },
+          { id: "ou_2", type: "user" },
+        ],
+      },
+      { emoji: "THUMBSUP", count: 1, users: [{ id: "cli_bot", type: "app" }] },
+    ]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("listFeishuPins returns pinned messages and tolerates missing contact scope", async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = createJsonFetch((url) => {
+    if (url.pathname.endsWith("/im/v1/pins")) {
+      assert.equal(url.searchParams.get("chat_id"), "oc_abc");
+      return {
+        body: {
+          code: 0,
+          data: {
+            items: [
+              { message_id: "om_1", operator_id: "ou_2", create_time: "1767225600000" },
+              { message_id: "om_gone", operator_id: "ou_2", create_time: "1767225600000" },
+            ],
+            has_more: false,
+          },
+        },
+      };
+    }
+    if (url.pathname.endsWith("/im/v1/messages/om_1")) {
+      return {
+        body: {
+          code: 0,
+          data: {
+            items: [
+              {
+                message_id: "om_1",
+                msg_type: "text",
+                create_time: "1767225600000",
+                sender: { id: "ou_1", sender_type: "user" },
+                body: { content: JSON.stringify({ text: "ship on friday" }) },
+              },
+            ],
+          },
+        },
+      };
+    }
+    if (url.pathname.endsWith("/im/v1/messages/om_gone")) {
+      return { status: 400, body: { code: 230110, msg: "message recalled" } };
+    }
+    return { status: 400, body: { code: 99991672, msg: "no permission" } };
+  });
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const result = await listFeishuPins({
+      client,
+      directory: new FeishuUserDirectory(),
+      chatId: "oc_abc",
+    });
+    assert.equal(result.pins.length, 2);
+    assert.deepEqual(result.pins[0], {
+      messageId: "om_1",
+      pinnedAt: "2026-01-01T00:00:00.000Z",
+      pinnedBy: { id: "ou_2" },
+      message: {
+        id: "om_1",
+        time: "2026-01-01T00:00:00.000Z",
+        sender: { id: "ou_1", type: "user" },
+        type: "text",
+        text: "ship on friday",
+      },
+    });
+    assert.equal(result.pins[1].message, undefined);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("listFeishuPins surfaces errors other than recalled messages", async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = createJsonFetch((url) => {
+    if (url.pathname.endsWith("/im/v1/pins")) {
+      return {
+        body: { code: 0, data: { items: [{ message_id: "om_1" }], has_more: false } },
+      };
+    }
+    return { status: 400, body: { code: 230027, msg: "no permission" } };
+  });
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    await assert.rejects(
+      listFeishuPins({ client, directory: new FeishuUserDirectory(), chatId: "oc_abc" }),
+      (err: unknown) => err instanceof FeishuApiError && err.code === 230027,
+    );
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("fetchFeishuMember reports missing users and surfaces api errors", async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = createJsonFetch((url) =>
+    url.pathname.endsWith("/ou_gone")
+      ? { body: { code: 0, data: {} } }
+      : { status: 400, body: { code: 99991672, msg: "no permission" } },
+  );
+  try {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const directory = new FeishuUserDirectory();
+    assert.deepEqual(await fetchFeishuMember({ client, directory, userId: "ou_gone" }), {
+      ok: false,
+      error: "Feishu member not found or not visible: ou_gone",
+    });
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      await assert.rejects(
+        fetchFeishuMember({ client, directory, userId: "ou_secret" }),
+        FeishuApiError,
+      );
+    }
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
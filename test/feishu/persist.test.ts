@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+
+import { FeishuJsonFile } from "../../src/feishu/persist.js";
+
+test("FeishuJsonFile writes the serialized value and reads it back", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-persist-"));
+  const filePath = path.join(dir, "nested", "state.json");
+  try {
+    let value: unknown = { a: 1 };
+    const file = new FeishuJsonFile({ filePath, label: "test", serialize: () => value });
+    assert.equal(file.read(), undefined);
+    file.schedule();
+    value = { a: 2 };
+    // flush 取消待执行的延迟写入并写入最新内容
+    await file.flush();
+    assert.deepEqual(file.read(), { a: 2 });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("FeishuJsonFile logs and ignores unreadable files", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "feishu-persist-"));
+  const filePath = path.join(dir, "state.json");
+  const warnings: string[] = [];
+  try {
+    fs.writeFileSync(filePath, "{not json");
+    const file = new FeishuJsonFile({
+      filePath,
+      label: "test",
+      serialize: () => ({}),
+      log: { warn: (message) => warnings.push(message) },
+    });
+    assert.equal(file.read(), undefined);
+    assert.match(warnings[0], /^feishu test load failed/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { feishuPostToMarkdown, markdownToFeishuPost } from "../../src/feishu/post.js";
+
+const contentOf = (markdown: string, options?: Parameters<typeof markdownToFeishuPost>[1]) =>
+  markdownToFeishuPost(markdown, options).zh_cn.content;
+
+test("markdownToFeishuPost converts bold, italic and strikethrough", () => {
+  const content = contentOf("plain **bold** *italic* ~~gone~~ __strong__ _em_");
+  assert.deepEqual(content, [
+    [
+      { tag: "text", text: "plain " },
+      { tag: "text", text: "bold", style: ["bold"] },
+      { tag: "text", text: " " },
+      { tag: "text", text: "italic", style: ["italic"] },
+      { tag: "text", text: " " },
+      { tag: "text", text: "gone", style: ["lineThrough"] },
+      { tag: "text", text: " " },
+      { tag: "text", text: "strong", style: ["bold"] },
+      { tag: "text", text: " " },
+      { tag: "text", text: "em", style: ["italic"] },
+    ],
+  ]);
+});
+
+test("markdownToFeishuPost nests styles", () => {
+  const content = contentOf("**bold _both_**");
+  assert.deepEqual(content, [
+    [
+      { tag: "text", text: "bold ", style: ["bold"] },
+      { tag: "text", text: "both", style: ["bold", "italic"] },
+    ],
+  ]);
+});
+
+test("markdownToFeishuPost keeps snake_case identifiers intact", () => {
+  const content = contentOf("call my_func_name now");
+  assert.deepEqual(content, [[{ tag: "text", text: "call my_func_name now" }]]);
+});
+
+test("markdownToFeishuPost converts links and bare urls", () => {
+  const content = contentOf("see [docs](https://open.feishu.cn/document) or https://example.com/a.");
+  assert.deepEqual(content, [
+    [
+      { tag: "text", text: "see " },
+      { tag: "a", text: "docs", href: "https://open.feishu.cn/document" },
+      { tag: "text", text: " or " },
+      { tag: "a", text: "https://example.com/a", href: "https://example.com/a" },
+      { tag: "text", text: "." },
+    ],
+  ]);
+});
+
+test("markdownToFeishuPost converts fenced code blocks", () => {
+  const content = contentOf("before\n```ts\nconst a = **1**;\n\nexport {};\n```\nafter");
+  assert.deepEqual(content, [
+    [{ tag: "text", text: "before" }],
+    [{ tag: "code_block", language: "ts", text: "const a = **1**;\n\nexport {};" }],
+    [{ tag: "text", text: "after" }],
+  ]);
+});
+
+test("markdownToFeishuPost keeps unterminated code blocks", () => {
+  const content = contentOf("```\nline");
+  assert.deepEqual(content, [[{ tag: "code_block", text: "line" }]]);
+});
+
+test("markdownToFeishuPost converts at tags", () => {
+  const content = contentOf('hi <at user_id="ou_123">Alice</at>, and <at user_id="all"></at>');
+  assert.deepEqual(content, [
+    [
+      { tag: "text", text: "hi " },
+      { tag: "at", user_id: "ou_123", user_name: "Alice" },
+      { tag: "text", text: ", and " },
+      { tag: "at", user_id: "all" },
+    ],
+  ]);
+});
+
+test("markdownToFeishuPost converts headings, rules and images", () => {
+  const content = contentOf("# Title\n---\n![chart](feishu:image_key:img_v2_abc)\n- item");
+  assert.deepEqual(content, [
+    [{ tag: "text", text: "Title", style: ["bold"] }],
+    [{ tag: "hr" }],
+    [{ tag: "img", image_key: "img_v2_abc" }],
+    [{ tag: "text", text: "- item" }],
+  ]);
+});
+
+test("markdownToFeishuPost keeps blank lines and appends image keys", () => {
+  const post = markdownToFeishuPost("\na\n\nb\n", { title: "T", imageKeys: ["img_1"] });
+  assert.deepEqual(post, {
+    zh_cn: {
+      title: "T",
+      content: [
+        [{ tag: "text", text: "a" }],
+        [],
+        [{ tag: "text", text: "b" }],
+        [],
+        [{ tag: "img", image_key: "img_1" }],
+      ],
+    },
+  });
+});
+
+test("feishuPostToMarkdown flattens styles, links, mentions and code", () => {
+  const parsed = feishuPostToMarkdown(
+    {
+      title: "Release",
+      content: [
+        [
+          { tag: "at", user_id: "@_user_1" },
+          { tag: "text", text: " and " },
+          { tag: "at", user_id: "@_all", user_name: "所有人" },
+          { tag: "text", text: " please check " },
+          { tag: "text", text: "this", style: ["bold", "italic"] },
+          { tag: "a", text: "PR", href: "https://example.com/pr/1" },
+        ],
+        [{ tag: "code_block", language: "GO", text: "func main() {}" }],
+        [{ tag: "hr" }],
+        [{ tag: "img", image_key: "img_v2_1" }],
+      ],
+    },
+    { mentions: { "@_user_1": "Alice" } },
+  );
+  assert.equal(
+    parsed.markdown,
+    [
+      "# Release",
+      "@Alice and @everyone please check ***this***[PR](https://example.com/pr/1)",
+      "```go\nfunc main() {}\n```",
+      "---",
+      "[Feishu image]",
+    ].join("\n"),
+  );
+  assert.deepEqual(parsed.imageKeys, ["img_v2_1"]);
+});
+
+test("feishuPostToMarkdown picks a locale when content is wrapped", () => {
+  const parsed = feishuPostToMarkdown({
+    en_us: { content: [[{ tag: "text", text: "english" }]] },
+    zh_cn: { content: [[{ tag: "text", text: "中文" }]] },
+  });
+  assert.equal(parsed.markdown, "中文");
+  const fallback = feishuPostToMarkdown({
+    en_us: { content: [[{ tag: "media", file_key: "file_v2_1", image_key: "img_cover" }]] },
+  });
+  assert.equal(fallback.markdown, "[Feishu media]");
+  assert.deepEqual(fallback.mediaKeys, ["file_v2_1"]);
+});
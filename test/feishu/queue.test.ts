@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { FeishuEventQueue } from "../../src/feishu/queue.js";
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+test("FeishuEventQueue limits concurrency and rejects when full", async () => {
+  const queue = new FeishuEventQueue({ concurrency: 1, maxPending: 1 });
+  const gate = deferred();
+  const order: string[] = [];
+  assert.equal(
+    queue.push(async () => {
+      order.push("a");
+      await gate.promise;
+    }),
+    true,
+  );
+  assert.equal(
+    queue.push(async () => {
+      order.push("b");
+    }),
+    true,
+  );
+  assert.equal(
+    queue.push(async () => {
+      order.push("c");
+    }),
+    false,
+  );
+  assert.equal(queue.active, 1);
+  assert.equal(queue.pending, 1);
+  gate.resolve();
+  await queue.onIdle();
+  assert.deepEqual(order, ["a", "b"]);
+});
+
+test("FeishuEventQueue reports task errors and keeps draining", async () => {
+  const errors: string[] = [];
+  const queue = new FeishuEventQueue({
+    concurrency: 1,
+    onError: (err) => errors.push(String(err)),
+  });
+  let ran = false;
+  queue.push(async () => {
+    throw new Error("boom");
+  });
+  queue.push(async () => {
+    ran = true;
+  });
+  await queue.onIdle();
+  assert.deepEqual(errors, ["Error: boom"]);
+  assert.equal(ran, true);
+});
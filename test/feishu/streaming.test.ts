@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import test from "node:test";
+
+import { FeishuReplyStream } from "../../src/feishu/streaming.js";
+
+const createStreamMock = (options: { failEditAfter?: number } = {}) => {
+  const sent: string[] = [];
+  const edits: Array<{ messageId: string; text: string }> = [];
+  const stream = {
+    send: async (text: string) => {
+      sent.push(text);
+      return { messageId: `om_${sent.length}` };
+    },
+    edit: async (messageId: string, text: string) => {
+      if (options.failEditAfter !== undefined && edits.length >= options.failEditAfter) {
+        throw new Error("edit failed");
+      }
+      edits.push({ messageId, text });
+    },
+  };
+  return { sent, edits, stream };
+};
+
+test("FeishuReplyStream sends once and edits with the latest partial text", async () => {
+  const { sent, edits, stream } = createStreamMock();
+  const reply = new FeishuReplyStream({ ...stream, throttleMs: 20 });
+  reply.update("Hel");
+  await sleep(5);
+  reply.update("Hello");
+  reply.update("Hello wor");
+  await sleep(40);
+  const result = await reply.finalize("Hello world");
+  assert.deepEqual(result, { ok: true, remaining: "" });
+  assert.deepEqual(sent, ["Hel"]);
+  assert.deepEqual(edits, [
+    { messageId: "om_1", text: "Hello wor" },
+    { messageId: "om_1", text: "Hello world" },
+  ]);
+});
+
+test("FeishuReplyStream starts a new message when content overflows", async () => {
+  const { sent, edits, stream } = createStreamMock();
+  const reply = new FeishuReplyStream({ ...stream, throttleMs: 0, maxChars: 12 });
+  reply.update("first line");
+  await sleep(5);
+  await reply.finalize("first line\nsecond line");
+  assert.deepEqual(sent, ["first line", "second line"]);
+  assert.deepEqual(edits, []);
+});
+
+test("FeishuReplyStream keeps the last edit for the final text", async () => {
+  const { sent, edits, stream } = createStreamMock();
+  const reply = new FeishuReplyStream({ ...stream, throttleMs: 0, maxEdits: 2 });
+  reply.update("a");
+  await sleep(5);
+  reply.update("ab");
+  await sleep(5);
+  reply.update("abc");
+  await sleep(5);
+  await reply.finalize("abcd");
+  assert.deepEqual(sent, ["a"]);
+  assert.deepEqual(
+    edits.map((edit) => edit.text),
+    ["ab", "abcd"],
+  );
+});
+
+test("FeishuReplyStream reports the unsent remainder after a failure", async () => {
+  const { stream } = createStreamMock({ failEditAfter: 0 });
+  const reply = new FeishuReplyStream({ ...stream, throttleMs: 0 });
+  reply.update("partial");
+  await sleep(5);
+  const result = await reply.finalize("partial answer");
+  assert.deepEqual(result, { ok: false, remaining: " answer" });
+});
+
+test("FeishuReplyStream drops the pending flush after cancel", async () => {
+  const { sent, edits, stream } = createStreamMock();
+  const reply = new FeishuReplyStream({ ...stream, throttleMs: 20 });
+  reply.update("Hel");
+  await sleep(5);
+  reply.update("Hello");
+  reply.cancel();
+  reply.update("Hello world");
+  await sleep(40);
+  assert.deepEqual(sent, ["Hel"]);
+  assert.deepEqual(edits, []);
+});
+
+test("FeishuReplyStream reopens code fences when rolling over", async () => {
+  const { sent, edits, stream } = createStreamMock();
+  const reply = new FeishuReplyStream({ ...stream, throttleMs: 0, maxChars: 30 });
+  const text = "Intro\n\n```ts\nconst a = 1;\nconst b = 2;\nconst c = 3;\n```\nDone";
+  reply.update(text.slice(0, 40));
+  await sleep(5);
+  await reply.finalize(text);
+  const shown = sent.map(
+    (initial, index) =>
+      edits.filter((edit) => edit.messageId === `om_${index + 1}`).at(-1)?.text ?? initial,
+  );
+  assert.deepEqual(shown, [
+    "Intro\n\n```ts\nconst a = 1;\n```",
+    "```ts\nconst b = 2;\n```",
+    "```ts\nconst c = 3;\n```\nDone",
+  ]);
+});
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { MoltbotConfig } from "openclaw/plugin-sdk";
+
+import { feishuThreading } from "../../src/feishu/threading.js";
+
+test("resolveReplyToMode honours the per-chat replyToMode for SDK replies", () => {
+  const cfg = {
+    channels: {
+      feishu: {
+        appId: "app-id",
+        appSecret: "app-secret",
+        replyToMode: "first",
+        channels: { oc_finance: { replyToMode: "all" } },
+      },
+    },
+  } as unknown as MoltbotConfig;
+
+  assert.equal(feishuThreading.resolveReplyToMode({ cfg, groupId: "oc_finance" }), "all");
+  assert.equal(feishuThreading.resolveReplyToMode({ cfg, groupChannel: "chat:oc_finance" }), "all");
+  assert.equal(feishuThreading.resolveReplyToMode({ cfg, groupId: "oc_other" }), "first");
+  assert.equal(feishuThreading.resolveReplyToMode({ cfg }), "first");
+});
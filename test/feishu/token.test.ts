@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { FeishuClient } from "../../src/feishu/client.js";
+import { FeishuTokenManager, resetFeishuTokenManagers } from "../../src/feishu/token.js";
+
+const createFetchMock = (options: { rejectFirstToken?: boolean; expire?: number } = {}) => {
+  const urls: string[] = [];
+  let tokens = 0;
+  const fetchMock = async (url: string, init?: RequestInit) => {
+    urls.push(url);
+    if (url.includes("/auth/v3/tenant_access_token/internal")) {
+      tokens += 1;
+      return {
+        ok: true,
+        json: async () => ({
+          tenant_access_token: `token-${tokens}`,
+          expire: options.expire ?? 7200,
+        }),
+      } as Response;
+    }
+    const auth = (init?.headers as Record<string, string>)?.Authorization;
+    const rejected = options.rejectFirstToken && auth === "Bearer token-1";
+    return {
+      ok: !rejected,
+      status: rejected ? 400 : 200,
+      text: async () =>
+        JSON.stringify(
+          rejected
+            ? { code: 99991663, msg: "Invalid access token for authorization." }
+            : { code: 0, data: { auth } },
+        ),
+    } as Response;
+  };
+  const tokenCalls = () => urls.filter((url) => url.includes("tenant_access_token")).length;
+  return { fetchMock, urls, tokenCalls };
+};
+
+const withFetch = async (fetchMock: unknown, run: () => Promise<void>) => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetchMock as typeof fetch;
+  resetFeishuTokenManagers();
+  try {
+    await run();
+  } finally {
+    globalThis.fetch = originalFetch;
+    resetFeishuTokenManagers();
+  }
+};
+
+test("FeishuTokenManager coalesces concurrent refreshes", async () => {
+  const { fetchMock, tokenCalls } = createFetchMock();
+  await withFetch(fetchMock, async () => {
+    const manager = new FeishuTokenManager({
+      appId: "app-id",
+      appSecret: "app-secret",
+      baseUrl: "https://open.feishu.cn/open-apis",
+    });
+    const tokens = await Promise.all([manager.getToken(), manager.getToken(), manager.getToken()]);
+    assert.deepEqual(tokens, ["token-1", "token-1", "token-1"]);
+    assert.equal(await manager.getToken(), "token-1");
+    assert.equal(tokenCalls(), 1);
+  });
+});
+
+test("FeishuTokenManager keeps short-lived tokens instead of refreshing every call", async () => {
+  // 有效期短于默认的提前刷新时长（5 分钟）
+  const { fetchMock, tokenCalls } = createFetchMock({ expire: 240 });
+  await withFetch(fetchMock, async () => {
+    const manager = new FeishuTokenManager({
+      appId: "app-id",
+      appSecret: "app-secret",
+      baseUrl: "https://open.feishu.cn/open-apis",
+    });
+    assert.equal(await manager.getToken(), "token-1");
+    assert.equal(await manager.getToken(), "token-1");
+    assert.equal(tokenCalls(), 1);
+  });
+});
+
+test("FeishuClient instances for the same app share one token", async () => {
+  const { fetchMock, tokenCalls } = createFetchMock();
+  await withFetch(fetchMock, async () => {
+    for (let i = 0; i < 3; i += 1) {
+      const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+      await client.request({ method: "GET", path: "/im/v1/chats" });
+    }
+    assert.equal(tokenCalls(), 1);
+    const other = new FeishuClient({ appId: "other-app", appSecret: "app-secret" });
+    await other.request({ method: "GET", path: "/im/v1/chats" });
+    assert.equal(tokenCalls(), 2);
+  });
+});
+
+test("FeishuClient refreshes the token and retries once when it is rejected", async () => {
+  const { fetchMock, tokenCalls } = createFetchMock({ rejectFirstToken: true });
+  await withFetch(fetchMock, async () => {
+    const client = new FeishuClient({ appId: "app-id", appSecret: "app-secret" });
+    const response = await client.request<{ auth: string }>({ method: "GET", path: "/im/v1/chats" });
+    assert.equal(response.data?.auth, "Bearer token-2");
+    assert.equal(tokenCalls(), 2);
+  });
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import type { MoltbotConfig } from "openclaw/plugin-sdk";
+
+import { feishuConfigSchema } from "../../src/feishu/schema.js";
+import { validateFeishuAccountConfig } from "../../src/feishu/validate.js";
+
+const withFeishu = (feishu: Record<string, unknown>) =>
+  ({ channels: { feishu } }) as unknown as MoltbotConfig;
+
+test("validateFeishuAccountConfig accepts a minimal config", () => {
+  const cfg = withFeishu({ appId: "cli_1", appSecret: "secret" });
+  assert.deepEqual(validateFeishuAccountConfig({ cfg }), []);
+});
+
+test("validateFeishuAccountConfig reports schema errors and unknown keys", () => {
+  const cfg = withFeishu({
+    appId: "cli_1",
+    appSecret: "secret",
+    replyFormat: "markdown",
+    requireMentoin: true,
+    channels: { oc_1: { ignoreOtherMentions: false, toolPolicy: "sometimes" } },
+  });
+  assert.deepEqual(validateFeishuAccountConfig({ cfg }), [
+    {
+      level: "error",
+      path: "channels.feishu.replyFormat",
+      message: 'expected one of "text", "post", "card"',
+    },
+    {
+      level: "warning",
+      path: "channels.feishu.requireMentoin",
+      message: "unknown config key, ignored",
+    },
+    {
+      level: "warning",
+      path: "channels.feishu.channels.oc_1.toolPolicy",
+      message:
+        'unknown tool policy "sometimes" (expected "full", "read-only", "none"); all tools are denied in this group',
+    },
+  ]);
+});
+
+test("validateFeishuAccountConfig checks secrets, account ids and allowlists", () => {
+  const cfg = withFeishu({
+    appId: "cli_1",
+    groupPolicy: "allowlist",
+    accounts: {
+      "ops bot": {
+        appSecret: "secret",
+        eventMode: "http",
+        dm: { allowFrom: ["ou_1", "user:ou_2"] },
+        channels: { ops: {} },
+      },
+    },
+  });
+  const diagnostics = validateFeishuAccountConfig({ cfg, accountId: "ops bot" });
+  assert.deepEqual(
+    diagnostics.map((item) => `${item.level} ${item.path}`),
+    [
+      "error channels.feishu.accounts.ops bot",
+      "error channels.feishu.accounts.ops bot.eventMode",
+      "warning channels.feishu.accounts.ops bot.dm.allowFrom[1]",
+      "warning channels.feishu.accounts.ops bot.channels.ops",
+      "warning channels.feishu.groupPolicy",
+    ],
+  );
+});
+
+test("feishuConfigSchema shares account properties with the accounts block", () => {
+  const { properties } = feishuConfigSchema.schema;
+  const accountSchema = properties?.accounts?.additionalProperties;
+  assert.ok(accountSchema && typeof accountSchema === "object");
+  const rootKeys = Object.keys(properties ?? {}).filter((key) => key !== "accounts");
+  assert.deepEqual(Object.keys(accountSchema.properties ?? {}), rootKeys);
+  assert.ok(rootKeys.includes("ignoreOtherMentions"));
+});
+
+test("validateFeishuAccountConfig warns about group agents missing from agents.list", () => {
+  const cfg = {
+    agents: { list: [{ id: "main" }, { id: "finance" }] },
+    channels: {
+      feishu: {
+        appId: "cli_1",
+        appSecret: "secret",
+        channels: { oc_1: { agentId: "finance" }, oc_2: { agentId: "fiance" } },
+      },
+    },
+  } as unknown as MoltbotConfig;
+  assert.deepEqual(validateFeishuAccountConfig({ cfg }), [
+    {
+      level: "warning",
+      path: "channels.feishu.channels.oc_2.agentId",
+      message: 'agent "fiance" is not defined in agents.list',
+    },
+  ]);
+});